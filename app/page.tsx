@@ -1,151 +1,238 @@
 "use client"
 
-import { useState, useMemo, useEffect } from "react"
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useState, useMemo, useEffect, type ReactNode } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { AlertsButton, AlertsDialog } from "@/components/alerts-dialog"
+import { CertificatesButton, CertificatesDialog } from "@/components/certificates-dialog"
+import { CommandPalette } from "@/components/command-palette"
+import { ConfigEditor } from "@/components/config-editor"
+import { ConfigIcon } from "@/components/config-icon"
+import { CategorySection } from "@/components/category-section"
+import { ConfigIssueList, ConfigIssuesBanner } from "@/components/config-issues"
+import { FavoritesStrip } from "@/components/favorites-strip"
+import { FilterChips } from "@/components/filter-chips"
+import { HistoryDialog, type HistoryTarget } from "@/components/history-dialog"
+import { TabHealthDot, getTabHealthLabel } from "@/components/health-badge"
+import { NetworkIndicator } from "@/components/network-indicator"
+import { NotificationsToggle } from "@/components/notifications-toggle"
+import { RecentServices } from "@/components/recent-services"
+import { ServiceCard } from "@/components/service-card"
+import { ServiceRow } from "@/components/service-row"
+import { ServiceTable, type ServiceTableItem } from "@/components/service-table"
+import { ViewModeToggle } from "@/components/view-mode-toggle"
 import { useToast } from "@/hooks/use-toast"
+import { useCertificates } from "@/hooks/use-certificates"
+import { useFavorites } from "@/hooks/use-favorites"
+import { useNetworkProfile } from "@/hooks/use-network-profile"
+import { useOrderOverlay } from "@/hooks/use-order-overlay"
+import { useRecentHistory } from "@/hooks/use-recent-history"
+import { useServiceHealth } from "@/hooks/use-service-health"
+import { useSortable } from "@/hooks/use-sortable"
+import { useStateNotifications } from "@/hooks/use-state-notifications"
+import { useUsageLog } from "@/hooks/use-usage-log"
+import { useViewMode } from "@/hooks/use-view-mode"
+import { getCertificateWarnings, getWarnDays } from "@/lib/certificates"
+import { ConfigApiError, detectConfigApi, saveConfigToServer, setApiToken, type ConfigApiInfo } from "@/lib/config-api"
+import { findConfigWarnings, loadDashboardConfig } from "@/lib/config-loader"
+import { ConfigValidationError, validateConfig, type ConfigIssue } from "@/lib/config-schema"
+import {
+  collectFilterOptions,
+  filterServices,
+  groupByCategory,
+  groupResults,
+  matchesFilters,
+  type ResultGrouping,
+  type ServiceGroup,
+} from "@/lib/filters"
+import { getServiceStatus, getTabHealth, type TabHealth } from "@/lib/health"
+import { getPreferredUrl } from "@/lib/network"
+import { applyOrder, getNeighbours, hasCustomOrder } from "@/lib/order"
+import { getHighlightRanges, parseQuery, searchServices } from "@/lib/search"
+import { findServiceByUrl, getServiceId } from "@/lib/services"
+import { readUrlState, writeUrlState, type UrlState } from "@/lib/url-state"
+import { resolveConfigUrls } from "@/lib/url-template"
+import type { Config, Service, Tab } from "@/lib/types"
+import { getRecentServiceIds, sortByUsage, usageBoost, type UsageAction } from "@/lib/usage"
 import {
-  ExternalLink,
-  Globe,
   Server,
   Moon,
   Sun,
   Copy,
-  Check,
   Search,
   X,
   Link,
-  Home,
-  MapPin,
-  Database,
-  Cloud,
   Menu,
   ChevronLeft,
   RefreshCw,
+  Pencil,
+  RotateCcw,
+  ArrowDown,
+  ArrowDownWideNarrow,
+  ArrowUp,
+  Activity,
+  LayoutGrid,
+  Command as CommandIcon,
 } from "lucide-react"
 import { useTheme } from "next-themes"
 
-interface Service {
-  name: string
-  url: string
-  description: string
-  alt_url?: string
-  icon?: string
-}
+type ServiceOrder = "config" | "usage"
 
-interface Tab {
-  name: string
-  key: string
-  id: string
-  mainUrl: string
-  icon: string
-  tooltip: {
-    title: string
-    description: string
-    location: string
-    specs: string
-  }
-  services: Service[]
-}
+const SERVICE_ORDER_STORAGE_KEY = "server-dashboard-service-order"
+const RECENT_LIMIT = 6
 
-interface Config {
-  tabs: Tab[]
-}
+// Container for the compact list and the table
+const LIST_CLASS =
+  "rounded-lg border border-emerald-200 dark:border-stone-700 bg-white/90 dark:bg-stone-800/60 divide-y dark:divide-stone-700 overflow-hidden"
 
-interface SearchResult {
-  service: Service
-  serverName: string
-  serverKey: string
-}
+// The "All" pseudo-tab, listing every server's services; only offered when there is more than one server
+const ALL_TAB_KEY = "all"
 
-// Declare global window property
-declare global {
-  interface Window {
-    dashboardConfig?: Config
-  }
+const GROUPINGS: { value: ResultGrouping; label: string }[] = [
+  { value: "server", label: "Server" },
+  { value: "category", label: "Category" },
+  { value: "status", label: "Status" },
+  { value: "name", label: "Name" },
+]
+
+const isKnownTab = (config: Config, key: string | null) =>
+  config.tabs.some((tab) => tab.key === key) || (key === ALL_TAB_KEY && config.tabs.length > 1)
+
+interface ServiceRenderOptions {
+  key?: string
+  serverName?: string
+  highlight?: (text: string) => ReactNode
+  comfortable?: boolean
 }
 
 export default function ServerDashboard() {
-  const [config, setConfig] = useState<Config | null>(null)
+  const [loadedConfig, setLoadedConfig] = useState<Config | null>(null)
+  const [draftConfig, setDraftConfig] = useState<Config | null>(null)
+  const [configApi, setConfigApi] = useState<ConfigApiInfo | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [configSource, setConfigSource] = useState<string | null>(null)
+  const [configIssues, setConfigIssues] = useState<ConfigIssue[]>([])
+  // Whether the file on disk made it through validation whole; edits of a partial config must not be written back
+  const [configComplete, setConfigComplete] = useState(true)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState("")
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState("")
+  const [activeFilters, setActiveFilters] = useState<string[]>([])
+  const [collapsedSections, setCollapsedSections] = useState<Record<string, boolean>>({})
+  const [resultGrouping, setResultGrouping] = useState<ResultGrouping>("server")
+  const [historyTarget, setHistoryTarget] = useState<HistoryTarget | null>(null)
+  const [certificatesOpen, setCertificatesOpen] = useState(false)
+  const [alertsOpen, setAlertsOpen] = useState(false)
   const [isMobile, setIsMobile] = useState(false)
   const [sidebarOpen, setSidebarOpen] = useState(false)
+  const [paletteOpen, setPaletteOpen] = useState(false)
+  const [serviceOrder, setServiceOrder] = useState<ServiceOrder>("config")
   const [mounted, setMounted] = useState(false)
   const { theme, setTheme, resolvedTheme } = useTheme()
   const { toast } = useToast()
+  // URL templates are resolved for display and probing; the editor keeps the config as written
+  const resolvedConfig = useMemo(() => (loadedConfig ? resolveConfigUrls(loadedConfig).config : null), [loadedConfig])
+  const { results: health, source: healthSource, history: historySource } = useServiceHealth(resolvedConfig)
+  const certificates = useCertificates(healthSource)
+  const warnDays = getWarnDays(resolvedConfig?.certificates)
+  const hasCertificates = Object.keys(certificates).length > 0
+  // Alerts are sent by the server, so they only show up while its probe results are in use
+  const hasAlerts = healthSource === "server" && (resolvedConfig?.alerts?.channels.length ?? 0) > 0
+  const network = useNetworkProfile(resolvedConfig, health)
+  const recentHistory = useRecentHistory(health, historySource)
+  const notifications = useStateNotifications(resolvedConfig, health)
+  const { favorites, isFavorite, toggleFavorite, moveFavorite } = useFavorites()
+  const { entries: usageEntries, stats: usageStats, recordUsage, clearHistory } = useUsageLog()
+  const order = useOrderOverlay()
+  const { viewMode, setViewMode } = useViewMode()
+
+  // While editing, the dashboard renders the draft as a live preview; otherwise the local order applies
+  const config = useMemo(
+    () =>
+      draftConfig
+        ? resolveConfigUrls(draftConfig).config
+        : resolvedConfig && applyOrder(resolvedConfig, order.overlay),
+    [draftConfig, resolvedConfig, order.overlay],
+  )
 
-  // Load config from JavaScript file
-  const loadConfig = () => {
-    return new Promise<void>((resolve, reject) => {
-      try {
-        setLoading(true)
-        setError(null)
-
-        // Remove existing script if it exists
-        const existingScript = document.getElementById("config-script")
-        if (existingScript) {
-          existingScript.remove()
-        }
+  // Drag and drop (or Alt+Arrow keys) reorders tabs, and services within their category. The mobile sidebar
+  // also has move buttons, since touch screens have neither.
+  const moveTab = (key: string, targetKey: string) => {
+    if (config) order.moveTab(config.tabs.map((tab) => tab.key), key, targetKey)
+  }
+  const tabSortable = useSortable(moveTab)
+  const serviceSortable = useSortable((id, targetId) => {
+    const tab = config?.tabs.find((candidate) => candidate.key === activeTab)
+    if (tab) order.moveService(tab.key, tab.services.map(getServiceId), id, targetId)
+  })
+
+  const tabHealth = useMemo(() => {
+    const byKey: Record<string, TabHealth> = {}
+    config?.tabs.forEach((tab) => {
+      byKey[tab.key] = getTabHealth(tab, health)
+    })
+    return byKey
+  }, [config, health])
 
-        // Create and load script
-        const script = document.createElement("script")
-        script.id = "config-script"
-        script.src = `/config.js?t=${Date.now()}` // Cache busting
-        script.onload = () => {
-          try {
-            if (window.dashboardConfig) {
-              setConfig(window.dashboardConfig)
-              if (!activeTab && window.dashboardConfig.tabs.length > 0) {
-                setActiveTab(window.dashboardConfig.tabs[0].key)
-              }
-              resolve()
-            } else {
-              throw new Error("Configuration not found in config.js")
-            }
-          } catch (err) {
-            console.error("Failed to parse config:", err)
-            setError(err instanceof Error ? err.message : "Failed to parse configuration")
-            reject(err)
-          } finally {
-            setLoading(false)
-          }
-        }
-        script.onerror = () => {
-          const errorMsg = "Failed to load config.js file"
-          console.error(errorMsg)
-          setError(errorMsg)
-          setLoading(false)
-          reject(new Error(errorMsg))
-        }
+  // Load config from config.json, config.yaml or the legacy config.js
+  const loadConfig = async () => {
+    setLoading(true)
+    setError(null)
 
-        document.head.appendChild(script)
-      } catch (err) {
-        console.error("Failed to load config:", err)
-        setError(err instanceof Error ? err.message : "Failed to load configuration")
-        setLoading(false)
-        reject(err)
+    try {
+      const loaded = await loadDashboardConfig()
+      setLoadedConfig(loaded.config)
+      setDraftConfig(null)
+      setConfigSource(loaded.source)
+      setConfigIssues(loaded.issues)
+      setConfigComplete(loaded.complete)
+      if (loaded.issues.length > 0) {
+        console.warn("Configuration problems:", loaded.issues)
       }
-    })
+      // Keep the current (or linked) tab if it still exists, otherwise fall back to the first one
+      setActiveTab((current) =>
+        isKnownTab(loaded.config, current) ? current : (loaded.config.tabs[0]?.key ?? ""),
+      )
+      return loaded
+    } catch (err) {
+      console.error("Failed to load config:", err)
+      setError(err instanceof Error ? err.message : "Failed to load configuration")
+      setConfigIssues(err instanceof ConfigValidationError ? err.issues : [])
+      throw err
+    } finally {
+      setLoading(false)
+    }
   }
 
+  // Restore tab, search and filters from the URL before the config arrives
+  useEffect(() => {
+    const state = readUrlState()
+    if (state.tab) setActiveTab(state.tab)
+    setSearchQuery(state.query)
+    setActiveFilters(state.filters)
+  }, [])
+
   // Load config on mount
   useEffect(() => {
     loadConfig().catch(() => {
       toast({
         title: "Configuration Error",
-        description: "Failed to load server configuration. Please check the config.js file.",
+        description: "Failed to load server configuration. Please check your config file.",
         variant: "destructive",
       })
     })
   }, [])
 
+  // Detect the optional server mode that can save config edits
+  useEffect(() => {
+    detectConfigApi().then(setConfigApi)
+  }, [])
+
   // Fix for theme toggle requiring double-click initially
   useEffect(() => {
     setMounted(true)
@@ -191,12 +278,23 @@ export default function ServerDashboard() {
     }
   }
 
+  // Log opens and copies of service URLs; server URLs aren't services and are left out
+  const trackUsage = (url: string, action: UsageAction) => {
+    const ref = config && findServiceByUrl(config, url)
+    if (ref) recordUsage(getServiceId(ref.service), url, action)
+  }
+
   const openUrl = (url: string) => {
+    trackUsage(url, "open")
     window.open(url, "_blank", "noopener,noreferrer")
   }
 
+  // Favorites and recent services open the URL that works from the current network
+  const primaryUrl = (service: Service) => getPreferredUrl(service, network.profile)
+
   const copyToClipboard = async (url: string, label: string) => {
     triggerHapticForCopy() // Only vibrate on copy
+    trackUsage(url, "copy")
 
     try {
       // Mobile-optimized copy function
@@ -263,26 +361,67 @@ export default function ServerDashboard() {
     }
   }
 
-  // Get service icon - simplified to just use the icon property or fallback
-  const getServiceIcon = (service: Service) => {
-    return service.icon || "🌐"
+  const canReorderTabs = !draftConfig
+  const canReorderServices = !draftConfig && serviceOrder === "config"
+
+  const tabSortableProps = (tab: Tab) => {
+    const keys = config?.tabs.map((candidate) => candidate.key) ?? []
+    return tabSortable.itemProps(tab.key, getNeighbours(keys, tab.key), !canReorderTabs)
   }
 
-  const getTabIcon = (iconType: string) => {
-    switch (iconType) {
-      case "home":
-        return <Home className="h-4 w-4" />
-      case "location":
-        return <MapPin className="h-4 w-4" />
-      case "server":
-        return <Database className="h-4 w-4" />
-      case "cloud":
-        return <Cloud className="h-4 w-4" />
-      default:
-        return <Globe className="h-4 w-4" />
-    }
+  const tabDragClass = (tab: Tab) =>
+    `${tabSortable.dragging === tab.key ? "opacity-50" : ""} ${
+      tabSortable.over === tab.key ? "ring-2 ring-emerald-400 dark:ring-amber-500" : ""
+    }`
+
+  // Wrap a service card so it can be dragged, or moved with Alt+Arrow keys, within its category
+  const renderSortableService = (services: Service[], service: Service, card: ReactNode) => {
+    const id = getServiceId(service)
+    const ids = services.map(getServiceId)
+
+    return (
+      <div
+        key={id}
+        tabIndex={canReorderServices ? 0 : undefined}
+        {...serviceSortable.itemProps(id, getNeighbours(ids, id), !canReorderServices)}
+        className={`rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-emerald-500 dark:focus-visible:ring-amber-500 ${
+          serviceSortable.dragging === id ? "opacity-50" : ""
+        } ${serviceSortable.over === id ? "ring-2 ring-emerald-400 dark:ring-amber-500" : ""}`}
+      >
+        {card}
+      </div>
+    )
+  }
+
+  const resetOrder = () => {
+    order.resetOrder()
+    toast({ title: "Order reset", description: "Servers and services follow the config again", duration: 2000 })
   }
 
+  const renderResetOrder = () =>
+    hasCustomOrder(order.overlay) &&
+    !draftConfig && (
+      <Button variant="ghost" size="sm" onClick={resetOrder} className="h-7 gap-1 px-2 text-xs text-muted-foreground">
+        <RotateCcw className="h-3 w-3" />
+        Reset order
+      </Button>
+    )
+
+  const renderOrderToggle = () => (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={toggleServiceOrder}
+      aria-pressed={serviceOrder === "usage"}
+      className={`h-7 gap-1 px-2 text-xs ${serviceOrder === "usage" ? "text-emerald-700 dark:text-amber-500" : "text-muted-foreground"}`}
+    >
+      <ArrowDownWideNarrow className="h-3 w-3" />
+      Most used
+    </Button>
+  )
+
+  const getTabIcon = (icon: string) => <ConfigIcon icon={icon} className="h-4 w-4" emojiClassName="text-base" />
+
   // Theme Toggle - completely fixed approach
   const toggleTheme = () => {
     if (!mounted) return
@@ -291,9 +430,35 @@ export default function ServerDashboard() {
     setTheme(newTheme)
   }
 
+  // Update view state and mirror it in the URL; tab and filter changes get their own history entry
+  const navigate = (next: Partial<UrlState>, mode: "push" | "replace" = "push") => {
+    if (next.tab) setActiveTab(next.tab)
+    if (next.query !== undefined) setSearchQuery(next.query)
+    if (next.filters !== undefined) setActiveFilters(next.filters)
+
+    writeUrlState({ tab: activeTab, query: searchQuery, filters: activeFilters, ...next }, mode)
+  }
+
+  // Browser back/forward
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = readUrlState()
+      setActiveTab((current) => {
+        if (!loadedConfig) return current
+        if (isKnownTab(loadedConfig, state.tab)) return state.tab ?? current
+        return loadedConfig.tabs[0]?.key ?? current
+      })
+      setSearchQuery(state.query)
+      setActiveFilters(state.filters)
+    }
+
+    window.addEventListener("popstate", handlePopState)
+    return () => window.removeEventListener("popstate", handlePopState)
+  }, [loadedConfig])
+
   // Tab change and close sidebar on mobile
   const handleTabChange = (tabKey: string) => {
-    setActiveTab(tabKey)
+    navigate({ tab: tabKey })
     if (isMobile) {
       setSidebarOpen(false)
     }
@@ -302,10 +467,10 @@ export default function ServerDashboard() {
   // Reload config
   const reloadConfig = () => {
     loadConfig()
-      .then(() => {
+      .then((loaded) => {
         toast({
           title: "🔄 Reloaded",
-          description: "Configuration reloaded from config.js",
+          description: `Configuration reloaded from ${loaded.source.replace(/^\//, "")}`,
           duration: 2000,
         })
       })
@@ -319,54 +484,368 @@ export default function ServerDashboard() {
       })
   }
 
+  // Config editing
+  const startEditing = () => {
+    if (loadedConfig) {
+      // Start from the order shown on the dashboard, so exporting keeps it
+      setDraftConfig(structuredClone(applyOrder(loadedConfig, order.overlay)))
+      setSidebarOpen(false)
+    }
+  }
+
+  const applyEdits = () => {
+    if (!draftConfig) return
+
+    const { config: validConfig, issues } = validateConfig(draftConfig)
+    if (!validConfig) {
+      toast({
+        title: "Cannot Apply",
+        description: "The edited configuration has no valid servers",
+        variant: "destructive",
+        duration: 3000,
+      })
+      return
+    }
+
+    setLoadedConfig(validConfig)
+    setConfigIssues([...issues, ...findConfigWarnings(validConfig)])
+    setDraftConfig(null)
+    toast({
+      title: "✏️ Changes applied",
+      description: "Export the config to keep them after a reload",
+      duration: 3000,
+    })
+  }
+
+  const saveEdits = async () => {
+    if (!draftConfig) return
+
+    setSaving(true)
+    try {
+      await saveConfigToServer(draftConfig)
+      await loadConfig()
+      toast({
+        title: "💾 Saved",
+        description: `Configuration written to ${configApi?.file ?? "the config file"}`,
+        duration: 2000,
+      })
+    } catch (err) {
+      if (err instanceof ConfigApiError && err.status === 401) {
+        const token = window.prompt("This server requires an API token to save the configuration")
+        if (token) {
+          setApiToken(token)
+          await saveEdits()
+          return
+        }
+      }
+
+      console.error("Failed to save config:", err)
+      toast({
+        title: "Save Failed",
+        description: err instanceof Error ? err.message : "Failed to save configuration",
+        variant: "destructive",
+        duration: 3000,
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const discardEdits = () => {
+    setDraftConfig(null)
+  }
+
   // Search functionality
   const searchResults = useMemo(() => {
     if (!searchQuery.trim() || !config) return []
+    return searchServices(config, searchQuery, (service) => usageBoost(usageStats.get(getServiceId(service))))
+  }, [searchQuery, config, usageStats])
+
+  const searchTerms = useMemo(() => parseQuery(searchQuery).terms, [searchQuery])
+
+  // Tag/category filters narrow search results, or on their own list matching services from every server
+  const filterOptions = useMemo(() => (config ? collectFilterOptions(config) : []), [config])
+  // On the "All" tab filters narrow the list in place, so grouping and layout stay as they are
+  const showAllTab = Boolean(config && config.tabs.length > 1 && !config.tabs.some((tab) => tab.key === ALL_TAB_KEY))
+  const allTabActive = showAllTab && activeTab === ALL_TAB_KEY
+  const showResults = Boolean(searchQuery) || (activeFilters.length > 0 && !allTabActive)
+  const visibleResults = useMemo(() => {
+    if (!config) return []
+    if (searchQuery) return searchResults.filter((result) => matchesFilters(result.service, activeFilters))
+    return filterServices(config, activeFilters)
+  }, [config, searchQuery, searchResults, activeFilters])
+
+  const totalServices = config?.tabs.reduce((total, tab) => total + tab.services.length, 0) ?? 0
+  const tabStripSize = (config?.tabs.length ?? 0) + (showAllTab ? 1 : 0)
+
+  const allGroups = useMemo(() => {
+    if (!config || !allTabActive) return []
+    return groupResults(filterServices(config, activeFilters), resultGrouping, (service) =>
+      getServiceStatus(service, health),
+    )
+  }, [config, allTabActive, activeFilters, resultGrouping, health])
+  const allServiceCount = allGroups.reduce((total, group) => total + group.results.length, 0)
 
-    const results: SearchResult[] = []
-    const query = searchQuery.toLowerCase()
-
-    config.tabs.forEach((tab) => {
-      tab.services.forEach((service) => {
-        const matchesName = service.name.toLowerCase().includes(query)
-        const matchesDescription = service.description.toLowerCase().includes(query)
-        const matchesUrl = service.url.toLowerCase().includes(query)
-        const matchesAltUrl = service.alt_url?.toLowerCase().includes(query)
-
-        if (matchesName || matchesDescription || matchesUrl || matchesAltUrl) {
-          results.push({
-            service,
-            serverName: tab.name,
-            serverKey: tab.key,
-          })
-        }
-      })
+  const recentServiceIds = useMemo(() => getRecentServiceIds(usageEntries, RECENT_LIMIT), [usageEntries])
+
+  // The service order preference is per device, like the theme
+  useEffect(() => {
+    if (localStorage.getItem(SERVICE_ORDER_STORAGE_KEY) === "usage") setServiceOrder("usage")
+  }, [])
+
+  const toggleServiceOrder = () => {
+    const next = serviceOrder === "usage" ? "config" : "usage"
+    setServiceOrder(next)
+    localStorage.setItem(SERVICE_ORDER_STORAGE_KEY, next)
+  }
+
+  const clearUsageHistory = () => {
+    clearHistory()
+    toast({ title: "History cleared", duration: 1500 })
+  }
+
+  // Category groups of a tab, each sorted by use when "Most used" is selected
+  const groupServices = (services: Service[]) =>
+    groupByCategory(services).map((group) =>
+      serviceOrder === "usage" ? { ...group, services: sortByUsage(group.services, usageStats) } : group,
+    )
+
+  const updateFilters = (filters: string[]) => {
+    navigate({ filters })
+  }
+
+  // Wrap a category's services in a collapsible section; tabs without categories render flat
+  const renderCategory = (tab: Tab, group: ServiceGroup, content: ReactNode) => {
+    const sectionKey = `${tab.key}:${group.category ?? ""}`
+    if (!tab.services.some((service) => service.category)) {
+      return <div key={sectionKey}>{content}</div>
+    }
+
+    return (
+      <CategorySection
+        key={sectionKey}
+        title={group.category ?? "Other"}
+        count={group.services.length}
+        open={!collapsedSections[sectionKey]}
+        onOpenChange={(open) => setCollapsedSections((prev) => ({ ...prev, [sectionKey]: !open }))}
+      >
+        {content}
+      </CategorySection>
+    )
+  }
+
+  const showServiceHistory = (service: Service) => {
+    setHistoryTarget({
+      title: service.name,
+      urls: [
+        { label: "Main URL", url: service.url },
+        ...(service.alt_url ? [{ label: "Alternative URL", url: service.alt_url }] : []),
+      ],
     })
+  }
 
-    return results
-  }, [searchQuery, config])
+  const showServerHistory = (tab: Tab) => {
+    setHistoryTarget({ title: `${tab.name} server`, urls: [{ label: "Main URL", url: tab.mainUrl }] })
+  }
 
-  const clearSearch = () => {
-    setSearchQuery("")
+  // A service as a card in the grid layout, or a row in the compact list
+  const renderService = (service: Service, options: ServiceRenderOptions = {}) => {
+    const props = {
+      service,
+      serverName: options.serverName,
+      highlight: options.highlight,
+      health,
+      networkProfile: network.profile,
+      favorite: isFavorite(getServiceId(service)),
+      onToggleFavorite: () => toggleFavorite(getServiceId(service)),
+      onOpenUrl: openUrl,
+      onCopyUrl: copyToClipboard,
+      copiedUrl,
+    }
+    return viewMode === "list" ? (
+      <ServiceRow key={options.key} {...props} />
+    ) : (
+      <ServiceCard
+        key={options.key}
+        {...props}
+        size={options.comfortable ? "comfortable" : "compact"}
+        history={recentHistory[service.url]}
+        onShowHistory={() => showServiceHistory(service)}
+        certificateWarnings={getCertificateWarnings(service, certificates, warnDays)}
+        muted={notifications.isMuted(getServiceId(service))}
+        onToggleMute={notifications.enabled ? () => notifications.toggleMute(getServiceId(service)) : undefined}
+      />
+    )
   }
 
-  const highlightText = (text: string, query: string) => {
-    if (!query.trim()) return text
+  const renderServiceTable = (items: ServiceTableItem[], highlight?: (text: string) => ReactNode) => (
+    <div className={LIST_CLASS}>
+      <ServiceTable
+        items={items}
+        highlight={highlight}
+        health={health}
+        networkProfile={network.profile}
+        onOpenUrl={openUrl}
+        onCopyUrl={copyToClipboard}
+        copiedUrl={copiedUrl}
+      />
+    </div>
+  )
 
-    const regex = new RegExp(`(${query})`, "gi")
-    const parts = text.split(regex)
+  // Container for a list of services in the selected layout; comfortable is the single-column mobile grid
+  const serviceLayoutClass = (comfortable: boolean) =>
+    viewMode === "list"
+      ? LIST_CLASS
+      : comfortable
+        ? "space-y-4"
+        : "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6"
 
-    return parts.map((part, index) =>
-      regex.test(part) ? (
-        <span key={index} className="bg-amber-200 dark:bg-amber-800 px-1 rounded">
-          {part}
-        </span>
-      ) : (
-        part
-      ),
+  // Search and filter results in the selected layout
+  const renderResults = (comfortable: boolean) => {
+    const highlight = (text: string) => highlightText(text, searchTerms)
+    if (viewMode === "table") return renderServiceTable(visibleResults, highlight)
+
+    return (
+      <div className={serviceLayoutClass(comfortable)}>
+        {visibleResults.map((result) =>
+          renderService(result.service, {
+            key: `${result.serverKey}/${getServiceId(result.service)}`,
+            serverName: result.serverName,
+            highlight,
+            comfortable,
+          }),
+        )}
+      </div>
+    )
+  }
+
+  // A tab's services by category in the selected layout; the table lists them all in one sortable table
+  const renderTabServices = (tab: Tab, comfortable: boolean) => {
+    const groups = groupServices(tab.services)
+    if (viewMode === "table") {
+      return renderServiceTable(
+        groups
+          .flatMap((group) => group.services)
+          .map((service) => ({ service, serverName: tab.name, serverKey: tab.key })),
+      )
+    }
+
+    return (
+      <div className="space-y-6">
+        {groups.map((group) =>
+          renderCategory(
+            tab,
+            group,
+            <div className={serviceLayoutClass(comfortable)}>
+              {group.services.map((service) =>
+                renderSortableService(group.services, service, renderService(service, { comfortable })),
+              )}
+            </div>,
+          ),
+        )}
+      </div>
+    )
+  }
+
+  // Every server's services, grouped as selected; each group collapses like a category section
+  const renderAllServices = (comfortable: boolean) => {
+    if (allGroups.length === 0) {
+      return (
+        <div className="text-center py-12">
+          <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No services found</h3>
+          <p className="text-muted-foreground">No service matches the active filters</p>
+        </div>
+      )
+    }
+    if (viewMode === "table") return renderServiceTable(allGroups.flatMap((group) => group.results))
+    if (resultGrouping === "name") {
+      return (
+        <div className={serviceLayoutClass(comfortable)}>
+          {allGroups[0].results.map((result) =>
+            renderService(result.service, {
+              key: `${result.serverKey}/${getServiceId(result.service)}`,
+              serverName: result.serverName,
+              comfortable,
+            }),
+          )}
+        </div>
+      )
+    }
+
+    return (
+      <div className="space-y-6">
+        {allGroups.map((group) => {
+          const sectionKey = `${ALL_TAB_KEY}:${resultGrouping}:${group.key}`
+          return (
+            <CategorySection
+              key={sectionKey}
+              title={group.label}
+              count={group.results.length}
+              open={!collapsedSections[sectionKey]}
+              onOpenChange={(open) => setCollapsedSections((prev) => ({ ...prev, [sectionKey]: !open }))}
+            >
+              <div className={serviceLayoutClass(comfortable)}>
+                {group.results.map((result) =>
+                  renderService(result.service, {
+                    key: `${result.serverKey}/${getServiceId(result.service)}`,
+                    serverName: resultGrouping === "server" ? undefined : result.serverName,
+                    comfortable,
+                  }),
+                )}
+              </div>
+            </CategorySection>
+          )
+        })}
+      </div>
     )
   }
 
+  const renderGroupingSelect = () => (
+    <Select value={resultGrouping} onValueChange={(value) => setResultGrouping(value as ResultGrouping)}>
+      <SelectTrigger className="h-8 w-auto gap-2 text-xs" aria-label="Group by">
+        <span className="text-muted-foreground">Group by</span>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {GROUPINGS.map((grouping) => (
+          <SelectItem key={grouping.value} value={grouping.value}>
+            {grouping.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  const updateSearch = (query: string) => {
+    navigate({ query }, "replace")
+  }
+
+  const clearSearch = () => {
+    updateSearch("")
+  }
+
+  // Highlight matched terms using plain string ranges, so any query is safe
+  const highlightText = (text: string, terms: string[]) => {
+    const ranges = getHighlightRanges(text, terms)
+    if (ranges.length === 0) return text
+
+    const parts: ReactNode[] = []
+    let cursor = 0
+    ranges.forEach(([start, end], index) => {
+      if (start > cursor) parts.push(text.slice(cursor, start))
+      parts.push(
+        <span key={index} className="bg-amber-200 dark:bg-amber-800 px-1 rounded">
+          {text.slice(start, end)}
+        </span>,
+      )
+      cursor = end
+    })
+    if (cursor < text.length) parts.push(text.slice(cursor))
+
+    return parts
+  }
+
   const activeTabData = config?.tabs.find((tab) => tab.key === activeTab)
 
   // Loading state
@@ -388,12 +867,18 @@ export default function ServerDashboard() {
     return (
       <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-green-100 dark:bg-gradient-to-br dark:from-stone-900 dark:to-amber-950">
         <div className="flex items-center justify-center min-h-screen">
-          <div className="text-center max-w-md mx-auto p-6">
+          <div className="text-center max-w-xl mx-auto p-6">
             <div className="text-red-500 mb-4">
               <X className="h-12 w-12 mx-auto" />
             </div>
             <h2 className="text-xl font-semibold mb-2">Configuration Error</h2>
             <p className="text-muted-foreground mb-4">{error || "Failed to load server configuration"}</p>
+            {configIssues.length > 0 && (
+              <ConfigIssueList
+                issues={configIssues}
+                className="mb-4 rounded-lg border border-red-200 dark:border-red-900 bg-white/70 dark:bg-stone-800/60 p-3"
+              />
+            )}
             <Button onClick={reloadConfig} className="gap-2">
               <RefreshCw className="h-4 w-4" />
               Retry
@@ -405,7 +890,48 @@ export default function ServerDashboard() {
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-green-100 dark:bg-gradient-to-br dark:from-stone-900 dark:to-amber-950">
+    <div
+      className={`min-h-screen bg-gradient-to-br from-emerald-50 to-green-100 dark:bg-gradient-to-br dark:from-stone-900 dark:to-amber-950 ${
+        draftConfig ? "md:pr-[28rem]" : ""
+      }`}
+    >
+      {/* Config Editor */}
+      {draftConfig && (
+        <ConfigEditor
+          config={draftConfig}
+          onChange={setDraftConfig}
+          onApply={applyEdits}
+          onDiscard={discardEdits}
+          onSave={configApi?.writable ? saveEdits : undefined}
+          saving={saving}
+          incomplete={!configComplete}
+        />
+      )}
+
+      <HistoryDialog target={historyTarget} source={historySource} onClose={() => setHistoryTarget(null)} />
+
+      <CertificatesDialog
+        open={certificatesOpen}
+        onOpenChange={setCertificatesOpen}
+        config={resolvedConfig}
+        certificates={certificates}
+        warnDays={warnDays}
+      />
+
+      <AlertsDialog open={alertsOpen} onOpenChange={setAlertsOpen} />
+
+      <CommandPalette
+        config={config}
+        networkProfile={network.profile}
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        onOpenUrl={openUrl}
+        onCopyUrl={copyToClipboard}
+        onSelectTab={(tabKey) => navigate({ tab: tabKey, query: "" })}
+        usageEntries={usageEntries}
+        usageStats={usageStats}
+      />
+
       {/* Mobile Layout */}
       {isMobile ? (
         <div className="flex h-screen">
@@ -423,7 +949,17 @@ export default function ServerDashboard() {
                 <h2 className="font-semibold text-emerald-800 dark:text-amber-500">Servers</h2>
               </div>
               <div className="flex items-center gap-1">
-                <Button variant="ghost" size="icon" onClick={reloadConfig} className="h-8 w-8">
+                <Button variant="ghost" size="icon" onClick={startEditing} className="h-8 w-8">
+                  <Pencil className="h-3 w-3" />
+                  <span className="sr-only">Edit config</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={reloadConfig}
+                  title={`Reload ${configSource ?? "config"}`}
+                  className="h-8 w-8"
+                >
                   <RefreshCw className="h-3 w-3" />
                 </Button>
                 <Button variant="ghost" size="icon" onClick={() => setSidebarOpen(false)} className="h-8 w-8">
@@ -434,30 +970,108 @@ export default function ServerDashboard() {
 
             {/* Sidebar Tabs */}
             <div className="p-2 space-y-1">
-              {config.tabs.map((tab) => (
+              {showAllTab && (
                 <button
-                  key={tab.key}
-                  onClick={() => handleTabChange(tab.key)}
+                  onClick={() => handleTabChange(ALL_TAB_KEY)}
                   className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors ${
-                    activeTab === tab.key
+                    allTabActive
                       ? "bg-emerald-100 dark:bg-stone-800 text-emerald-800 dark:text-amber-500 border border-emerald-200 dark:border-stone-700"
                       : "hover:bg-emerald-50 dark:hover:bg-stone-800 text-stone-700 dark:text-stone-300"
                   }`}
                 >
-                  {getTabIcon(tab.icon)}
+                  <LayoutGrid className="h-4 w-4" />
                   <div className="flex-1 min-w-0">
-                    <div className="font-medium truncate">{tab.name}</div>
-                    <div className="text-xs text-muted-foreground">{tab.services.length} services</div>
+                    <span className="font-medium truncate">All services</span>
+                    <div className="text-xs text-muted-foreground truncate">{totalServices} services</div>
                   </div>
-                  {activeTab === tab.key && (
-                    <div className="w-2 h-2 bg-emerald-600 dark:bg-amber-500 rounded-full"></div>
-                  )}
+                  {allTabActive && <div className="w-2 h-2 bg-emerald-600 dark:bg-amber-500 rounded-full"></div>}
                 </button>
-              ))}
+              )}
+              {config.tabs.map((tab) => {
+                const { previous, next } = getNeighbours(config.tabs.map((candidate) => candidate.key), tab.key)
+                return (
+                  <div key={tab.key} className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleTabChange(tab.key)}
+                      {...tabSortableProps(tab)}
+                      className={`flex-1 min-w-0 flex items-center gap-3 p-3 rounded-lg text-left transition-colors ${
+                        activeTab === tab.key
+                          ? "bg-emerald-100 dark:bg-stone-800 text-emerald-800 dark:text-amber-500 border border-emerald-200 dark:border-stone-700"
+                          : "hover:bg-emerald-50 dark:hover:bg-stone-800 text-stone-700 dark:text-stone-300"
+                      } ${tabDragClass(tab)}`}
+                    >
+                      {getTabIcon(tab.icon)}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <TabHealthDot health={tabHealth[tab.key]} />
+                          <span className="font-medium truncate">{tab.name}</span>
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {tab.services.length} services
+                          {tabHealth[tab.key].failing > 0 && ` · ${tabHealth[tab.key].failing} failing`}
+                        </div>
+                      </div>
+                      {activeTab === tab.key && (
+                        <div className="w-2 h-2 bg-emerald-600 dark:bg-amber-500 rounded-full"></div>
+                      )}
+                    </button>
+                    {canReorderTabs && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={!previous}
+                          onClick={() => previous && moveTab(tab.key, previous)}
+                        >
+                          <ArrowUp className="h-3 w-3" />
+                          <span className="sr-only">Move {tab.name} up</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={!next}
+                          onClick={() => next && moveTab(tab.key, next)}
+                        >
+                          <ArrowDown className="h-3 w-3" />
+                          <span className="sr-only">Move {tab.name} down</span>
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )
+              })}
             </div>
 
-            {/* Theme Toggle in Sidebar */}
-            <div className="absolute bottom-4 left-4 right-4">
+            {/* Network Profile and Theme Toggle in Sidebar */}
+            <div className="absolute bottom-4 left-4 right-4 space-y-2">
+              <NetworkIndicator
+                mode={network.mode}
+                detected={network.detected}
+                profile={network.profile}
+                onModeChange={network.setMode}
+                className="w-full justify-start h-10"
+              />
+              <NotificationsToggle
+                enabled={notifications.enabled}
+                permission={notifications.permission}
+                onChange={notifications.setEnabled}
+                showLabel
+                className="w-full justify-start"
+              />
+              {hasCertificates && (
+                <CertificatesButton
+                  certificates={certificates}
+                  warnDays={warnDays}
+                  onClick={() => setCertificatesOpen(true)}
+                  showLabel
+                  className="w-full justify-start"
+                />
+              )}
+              {hasAlerts && (
+                <AlertsButton onClick={() => setAlertsOpen(true)} showLabel className="w-full justify-start" />
+              )}
               <Button variant="outline" onClick={toggleTheme} className="w-full justify-start gap-2">
                 <Sun className="h-4 w-4 rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
                 <Moon className="absolute h-4 w-4 rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100 ml-2" />
@@ -491,17 +1105,26 @@ export default function ServerDashboard() {
                     </h1>
                   </div>
                 </div>
-                {activeTabData && (
+                {allTabActive ? (
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    {getTabIcon(activeTabData.icon)}
-                    <span className="font-medium">{activeTabData.name}</span>
+                    <LayoutGrid className="h-4 w-4" />
+                    <span className="font-medium">All services</span>
                   </div>
+                ) : (
+                  activeTabData && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      {getTabIcon(activeTabData.icon)}
+                      <span className="font-medium">{activeTabData.name}</span>
+                    </div>
+                  )
                 )}
               </div>
             </div>
 
             {/* Mobile Content */}
             <div className="flex-1 overflow-auto p-4">
+              <ConfigIssuesBanner issues={configIssues} />
+
               {/* Search Bar */}
               <div className="mb-4">
                 <div className="relative">
@@ -510,7 +1133,7 @@ export default function ServerDashboard() {
                     type="text"
                     placeholder="Search services..."
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onChange={(e) => updateSearch(e.target.value)}
                     className="pl-10 pr-10 h-12 text-base"
                   />
                   {searchQuery && (
@@ -526,100 +1149,37 @@ export default function ServerDashboard() {
                 </div>
               </div>
 
+              <FilterChips options={filterOptions} active={activeFilters} onChange={updateFilters} className="mb-4" />
+
+              <FavoritesStrip
+                config={config}
+                favorites={favorites}
+                onOpenService={(service) => openUrl(primaryUrl(service))}
+                onMove={moveFavorite}
+                onRemove={toggleFavorite}
+                className="mb-4"
+              />
+
+              <RecentServices
+                config={config}
+                serviceIds={recentServiceIds}
+                stats={usageStats}
+                onOpenService={(service) => openUrl(primaryUrl(service))}
+                onClear={clearUsageHistory}
+                className="mb-4"
+              />
+
               {/* Search Results or Tab Content */}
-              {searchQuery ? (
+              {showResults ? (
                 <div className="mb-6">
                   <div className="flex items-center gap-3 mb-4">
-                    <h2 className="text-xl font-semibold">Search Results</h2>
-                    <Badge variant="outline">{searchResults.length} results</Badge>
+                    <h2 className="text-xl font-semibold">{searchQuery ? "Search Results" : "Filtered Services"}</h2>
+                    <Badge variant="outline">{visibleResults.length} results</Badge>
+                    <ViewModeToggle value={viewMode} onChange={setViewMode} className="ml-auto" />
                   </div>
 
-                  {searchResults.length > 0 ? (
-                    <div className="space-y-3">
-                      {searchResults.map((result, index) => (
-                        <Card
-                          key={index}
-                          className="group hover:shadow-lg transition-all duration-200 border-0 shadow-md bg-white/90 dark:bg-stone-800/60 backdrop-blur-sm"
-                        >
-                          <CardHeader className="pb-3">
-                            <div className="flex items-center gap-3">
-                              <span className="text-2xl flex-shrink-0">{getServiceIcon(result.service)}</span>
-                              <div className="min-w-0 flex-1">
-                                <CardTitle className="text-lg group-hover:text-emerald-600 dark:group-hover:text-amber-500 transition-colors">
-                                  {highlightText(result.service.name, searchQuery)}
-                                </CardTitle>
-                                <CardDescription className="text-sm mt-1 line-clamp-2">
-                                  {highlightText(result.service.description, searchQuery)}
-                                </CardDescription>
-                                <Badge variant="secondary" className="mt-2 text-xs">
-                                  {result.serverName}
-                                </Badge>
-                              </div>
-                            </div>
-                          </CardHeader>
-                          <CardContent className="pt-0 space-y-3">
-                            <div className="space-y-2">
-                              <Button
-                                onClick={() => openUrl(result.service.url)}
-                                className="w-full h-12 bg-emerald-600 hover:bg-emerald-700 dark:bg-amber-700 dark:hover:bg-amber-600 text-base"
-                                variant="default"
-                              >
-                                <span className="mr-2">Open Service</span>
-                                <ExternalLink className="h-4 w-4" />
-                              </Button>
-
-                              {result.service.alt_url && (
-                                <Button
-                                  onClick={() => openUrl(result.service.alt_url!)}
-                                  className="w-full h-12 border-emerald-200 hover:bg-emerald-50 dark:border-amber-600 dark:hover:bg-stone-700 text-base"
-                                  variant="outline"
-                                >
-                                  <span className="mr-2">Alternative URL</span>
-                                  <ExternalLink className="h-4 w-4" />
-                                </Button>
-                              )}
-                            </div>
-
-                            <div className="space-y-2">
-                              <div
-                                className="text-xs text-muted-foreground bg-muted/50 rounded p-3 font-mono cursor-pointer hover:bg-muted/70 transition-colors active:bg-muted/80"
-                                onClick={() => copyToClipboard(result.service.url, result.service.name)}
-                              >
-                                <div className="flex items-center justify-between gap-2">
-                                  <div className="truncate flex-1 text-xs">
-                                    {highlightText(result.service.url, searchQuery)}
-                                  </div>
-                                  {copiedUrl === result.service.url ? (
-                                    <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
-                                  ) : (
-                                    <Copy className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                                  )}
-                                </div>
-                              </div>
-                              {result.service.alt_url && (
-                                <div
-                                  className="text-xs text-muted-foreground bg-muted/50 rounded p-3 font-mono cursor-pointer hover:bg-muted/70 transition-colors active:bg-muted/80"
-                                  onClick={() =>
-                                    copyToClipboard(result.service.alt_url!, `${result.service.name} (Alt)`)
-                                  }
-                                >
-                                  <div className="flex items-center justify-between gap-2">
-                                    <div className="truncate flex-1 text-xs">
-                                      Alt: {highlightText(result.service.alt_url, searchQuery)}
-                                    </div>
-                                    {copiedUrl === result.service.alt_url ? (
-                                      <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
-                                    ) : (
-                                      <Copy className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                                    )}
-                                  </div>
-                                </div>
-                              )}
-                            </div>
-                          </CardContent>
-                        </Card>
-                      ))}
-                    </div>
+                  {visibleResults.length > 0 ? (
+                    renderResults(true)
                   ) : (
                     <div className="text-center py-12">
                       <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -630,111 +1190,69 @@ export default function ServerDashboard() {
                 </div>
               ) : (
                 /* Tab Content */
-                activeTabData && (
+                allTabActive ? (
                   <div className="bg-white/70 dark:bg-stone-800/30 backdrop-blur-sm rounded-xl border border-emerald-200 dark:border-stone-700 p-4 shadow-lg">
                     <div className="flex flex-col gap-3 mb-6">
                       <div className="flex items-center gap-2">
-                        {getTabIcon(activeTabData.icon)}
-                        <h2 className="text-xl font-semibold text-emerald-800 dark:text-amber-500">
-                          {activeTabData.name} Services
-                        </h2>
+                        <LayoutGrid className="h-4 w-4" />
+                        <h2 className="text-xl font-semibold text-emerald-800 dark:text-amber-500">All Services</h2>
                       </div>
-                      <div className="flex items-center gap-3">
+                      <div className="flex flex-wrap items-center gap-3">
                         <Badge variant="outline" className="border-emerald-300 dark:border-amber-600 w-fit">
-                          {activeTabData.services.length} services
+                          {allServiceCount} services
                         </Badge>
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <Link className="h-4 w-4 flex-shrink-0" />
-                          <span className="font-mono text-xs truncate">{activeTabData.mainUrl}</span>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => copyToClipboard(activeTabData.mainUrl, `${activeTabData.name} Server URL`)}
-                            className="h-6 w-6 p-0 flex-shrink-0"
-                          >
-                            <Copy className="h-3 w-3" />
-                          </Button>
-                        </div>
+                        {renderGroupingSelect()}
+                        <ViewModeToggle value={viewMode} onChange={setViewMode} />
                       </div>
                     </div>
 
-                    <div className="space-y-4">
-                      {activeTabData.services.map((service: Service, index: number) => (
-                        <Card
-                          key={index}
-                          className="group hover:shadow-lg transition-all duration-200 border-0 shadow-md bg-white/90 dark:bg-stone-800/60 backdrop-blur-sm"
-                        >
-                          <CardHeader className="pb-3">
-                            <div className="flex items-center gap-3">
-                              <span className="text-2xl flex-shrink-0">{getServiceIcon(service)}</span>
-                              <div className="min-w-0 flex-1">
-                                <CardTitle className="text-lg group-hover:text-emerald-600 dark:group-hover:text-amber-500 transition-colors">
-                                  {service.name}
-                                </CardTitle>
-                                <CardDescription className="text-sm mt-1 line-clamp-2">
-                                  {service.description}
-                                </CardDescription>
-                              </div>
-                            </div>
-                          </CardHeader>
-                          <CardContent className="pt-0">
-                            <div className="space-y-3">
-                              <Button
-                                onClick={() => openUrl(service.url)}
-                                className="w-full h-12 bg-emerald-600 hover:bg-emerald-700 dark:bg-amber-700 dark:hover:bg-amber-600 text-base"
-                                variant="default"
-                              >
-                                <span className="mr-2">Open Service</span>
-                                <ExternalLink className="h-4 w-4" />
-                              </Button>
-
-                              {service.alt_url && (
-                                <Button
-                                  onClick={() => openUrl(service.alt_url!)}
-                                  className="w-full h-12 border-emerald-200 hover:bg-emerald-50 dark:border-amber-600 dark:hover:bg-stone-700 text-base"
-                                  variant="outline"
-                                >
-                                  <span className="mr-2">Alternative URL</span>
-                                  <ExternalLink className="h-4 w-4" />
-                                </Button>
-                              )}
-
-                              <div className="space-y-2">
-                                <div
-                                  className="text-xs text-muted-foreground bg-muted/50 rounded p-3 font-mono cursor-pointer hover:bg-muted/70 transition-colors active:bg-muted/80"
-                                  onClick={() => copyToClipboard(service.url, service.name)}
-                                >
-                                  <div className="flex items-center justify-between gap-2">
-                                    <div className="truncate flex-1 text-xs">{service.url}</div>
-                                    {copiedUrl === service.url ? (
-                                      <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
-                                    ) : (
-                                      <Copy className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                                    )}
-                                  </div>
-                                </div>
-                                {service.alt_url && (
-                                  <div
-                                    className="text-xs text-muted-foreground bg-muted/50 rounded p-3 font-mono cursor-pointer hover:bg-muted/70 transition-colors active:bg-muted/80"
-                                    onClick={() => copyToClipboard(service.alt_url!, `${service.name} (Alt)`)}
-                                  >
-                                    <div className="flex items-center justify-between gap-2">
-                                      <div className="truncate flex-1 text-xs">Alt: {service.alt_url}</div>
-                                      {copiedUrl === service.alt_url ? (
-                                        <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
-                                      ) : (
-                                        <Copy className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                                      )}
-                                    </div>
-                                  </div>
-                                )}
-                              </div>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      ))}
-                    </div>
+                    {renderAllServices(true)}
                   </div>
+                ) : (
+                  activeTabData && (
+                    <div className="bg-white/70 dark:bg-stone-800/30 backdrop-blur-sm rounded-xl border border-emerald-200 dark:border-stone-700 p-4 shadow-lg">
+                      <div className="flex flex-col gap-3 mb-6">
+                        <div className="flex items-center gap-2">
+                          {getTabIcon(activeTabData.icon)}
+                          <h2 className="text-xl font-semibold text-emerald-800 dark:text-amber-500">
+                            {activeTabData.name} Services
+                          </h2>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-3">
+                          <Badge variant="outline" className="border-emerald-300 dark:border-amber-600 w-fit">
+                            {activeTabData.services.length} services
+                          </Badge>
+                          {renderOrderToggle()}
+                          {renderResetOrder()}
+                          <ViewModeToggle value={viewMode} onChange={setViewMode} />
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            <Link className="h-4 w-4 flex-shrink-0" />
+                            <span className="font-mono text-xs truncate">{activeTabData.mainUrl}</span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => copyToClipboard(activeTabData.mainUrl, `${activeTabData.name} Server URL`)}
+                              className="h-6 w-6 p-0 flex-shrink-0"
+                            >
+                              <Copy className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => showServerHistory(activeTabData)}
+                              title="Server history"
+                              className="h-6 w-6 p-0 flex-shrink-0"
+                            >
+                              <Activity className="h-3 w-3" />
+                              <span className="sr-only">Server history</span>
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+
+                      {renderTabServices(activeTabData, true)}
+                    </div>
+                  )
                 )
               )}
             </div>
@@ -751,7 +1269,49 @@ export default function ServerDashboard() {
               </h1>
             </div>
             <div className="absolute right-8 top-8 flex items-center gap-2">
-              <Button variant="outline" size="icon" onClick={reloadConfig} className="h-10 w-10">
+              <NetworkIndicator
+                mode={network.mode}
+                detected={network.detected}
+                profile={network.profile}
+                onModeChange={network.setMode}
+                className="h-10"
+              />
+              <NotificationsToggle
+                enabled={notifications.enabled}
+                permission={notifications.permission}
+                onChange={notifications.setEnabled}
+                className="h-10 w-10"
+              />
+              {hasCertificates && (
+                <CertificatesButton
+                  certificates={certificates}
+                  warnDays={warnDays}
+                  onClick={() => setCertificatesOpen(true)}
+                  className="h-10 w-10"
+                />
+              )}
+              {hasAlerts && <AlertsButton onClick={() => setAlertsOpen(true)} className="h-10 w-10" />}
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPaletteOpen(true)}
+                title="Jump to service (Ctrl+K)"
+                className="h-10 w-10"
+              >
+                <CommandIcon className="h-4 w-4" />
+                <span className="sr-only">Open command palette</span>
+              </Button>
+              <Button variant="outline" size="icon" onClick={startEditing} className="h-10 w-10">
+                <Pencil className="h-4 w-4" />
+                <span className="sr-only">Edit config</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={reloadConfig}
+                title={`Reload ${configSource ?? "config"}`}
+                className="h-10 w-10"
+              >
                 <RefreshCw className="h-4 w-4" />
                 <span className="sr-only">Reload config</span>
               </Button>
@@ -768,6 +1328,8 @@ export default function ServerDashboard() {
           </div>
 
           <div className="container mx-auto px-4 py-0">
+            <ConfigIssuesBanner issues={configIssues} />
+
             {/* Search Bar */}
             <div className="max-w-md mx-auto mb-8">
               <div className="relative">
@@ -776,7 +1338,7 @@ export default function ServerDashboard() {
                   type="text"
                   placeholder="Search services..."
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => updateSearch(e.target.value)}
                   className="pl-10 pr-10 h-10 text-sm"
                 />
                 {searchQuery && (
@@ -792,98 +1354,42 @@ export default function ServerDashboard() {
               </div>
             </div>
 
+            <FilterChips
+              options={filterOptions}
+              active={activeFilters}
+              onChange={updateFilters}
+              className="justify-center mb-8"
+            />
+
+            <FavoritesStrip
+              config={config}
+              favorites={favorites}
+              onOpenService={(service) => openUrl(primaryUrl(service))}
+              onMove={moveFavorite}
+              onRemove={toggleFavorite}
+              className="mb-8"
+            />
+
+            <RecentServices
+              config={config}
+              serviceIds={recentServiceIds}
+              stats={usageStats}
+              onOpenService={(service) => openUrl(primaryUrl(service))}
+              onClear={clearUsageHistory}
+              className="mb-8"
+            />
+
             {/* Search Results */}
-            {searchQuery && (
+            {showResults && (
               <div className="mb-8">
                 <div className="flex items-center gap-3 mb-4">
-                  <h2 className="text-2xl font-semibold">Search Results</h2>
-                  <Badge variant="outline">{searchResults.length} results</Badge>
+                  <h2 className="text-2xl font-semibold">{searchQuery ? "Search Results" : "Filtered Services"}</h2>
+                  <Badge variant="outline">{visibleResults.length} results</Badge>
+                  <ViewModeToggle value={viewMode} onChange={setViewMode} className="ml-auto" />
                 </div>
 
-                {searchResults.length > 0 ? (
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {searchResults.map((result, index) => (
-                      <Card
-                        key={index}
-                        className="group hover:shadow-lg transition-all duration-200 border-0 shadow-md bg-white/90 dark:bg-stone-800/60 backdrop-blur-sm"
-                      >
-                        <CardHeader className="pb-3">
-                          <div className="flex items-center gap-3">
-                            <span className="text-2xl flex-shrink-0">{getServiceIcon(result.service)}</span>
-                            <div className="min-w-0 flex-1">
-                              <CardTitle className="text-lg group-hover:text-emerald-600 dark:group-hover:text-amber-500 transition-colors">
-                                {highlightText(result.service.name, searchQuery)}
-                              </CardTitle>
-                              <CardDescription className="text-sm mt-1 line-clamp-2">
-                                {highlightText(result.service.description, searchQuery)}
-                              </CardDescription>
-                              <Badge variant="secondary" className="mt-2 text-xs">
-                                {result.serverName}
-                              </Badge>
-                            </div>
-                          </div>
-                        </CardHeader>
-                        <CardContent className="pt-0 space-y-3">
-                          <div className="space-y-3">
-                            <Button
-                              onClick={() => openUrl(result.service.url)}
-                              className="w-full h-10 bg-emerald-600 hover:bg-emerald-700 dark:bg-amber-700 dark:hover:bg-amber-600 text-sm"
-                              variant="default"
-                            >
-                              <span className="mr-2">Open Service</span>
-                              <ExternalLink className="h-4 w-4" />
-                            </Button>
-
-                            {result.service.alt_url && (
-                              <Button
-                                onClick={() => openUrl(result.service.alt_url!)}
-                                className="w-full h-10 border-emerald-200 hover:bg-emerald-50 dark:border-amber-600 dark:hover:bg-stone-700 text-sm"
-                                variant="outline"
-                              >
-                                <span className="mr-2">Alternative URL</span>
-                                <ExternalLink className="h-4 w-4" />
-                              </Button>
-                            )}
-                          </div>
-
-                          <div className="space-y-2">
-                            <div
-                              className="text-xs text-muted-foreground bg-muted/50 rounded p-2 font-mono cursor-pointer hover:bg-muted/70 transition-colors active:bg-muted/80"
-                              onClick={() => copyToClipboard(result.service.url, result.service.name)}
-                            >
-                              <div className="flex items-center justify-between gap-2">
-                                <div className="truncate flex-1 text-xs">
-                                  {highlightText(result.service.url, searchQuery)}
-                                </div>
-                                {copiedUrl === result.service.url ? (
-                                  <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
-                                ) : (
-                                  <Copy className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                                )}
-                              </div>
-                            </div>
-                            {result.service.alt_url && (
-                              <div
-                                className="text-xs text-muted-foreground bg-muted/50 rounded p-2 font-mono cursor-pointer hover:bg-muted/70 transition-colors active:bg-muted/80"
-                                onClick={() => copyToClipboard(result.service.alt_url!, `${result.service.name} (Alt)`)}
-                              >
-                                <div className="flex items-center justify-between gap-2">
-                                  <div className="truncate flex-1 text-xs">
-                                    Alt: {highlightText(result.service.alt_url, searchQuery)}
-                                  </div>
-                                  {copiedUrl === result.service.alt_url ? (
-                                    <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
-                                  ) : (
-                                    <Copy className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                                  )}
-                                </div>
-                              </div>
-                            )}
-                          </div>
-                        </CardContent>
-                      </Card>
-                    ))}
-                  </div>
+                {visibleResults.length > 0 ? (
+                  renderResults(false)
                 ) : (
                   <div className="text-center py-12">
                     <Search className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -895,27 +1401,53 @@ export default function ServerDashboard() {
             )}
 
             {/* Desktop Tabs - Clean Design */}
-            {!searchQuery && (
+            {!showResults && (
               <div className="mb-8">
                 <div
                   className={`relative w-full grid h-auto p-2 bg-emerald-100 dark:bg-stone-800 rounded-xl border dark:border-stone-700 ${
-                    config.tabs.length === 1
+                    tabStripSize === 1
                       ? "grid-cols-1"
-                      : config.tabs.length === 2
+                      : tabStripSize === 2
                         ? "grid-cols-2"
-                        : config.tabs.length === 3
+                        : tabStripSize === 3
                           ? "grid-cols-3"
-                          : config.tabs.length === 4
+                          : tabStripSize === 4
                             ? "grid-cols-4"
-                            : config.tabs.length === 5
+                            : tabStripSize === 5
                               ? "grid-cols-5"
-                              : config.tabs.length === 6
+                              : tabStripSize === 6
                                 ? "grid-cols-6"
-                                : config.tabs.length <= 8
+                                : tabStripSize <= 8
                                   ? "grid-cols-4 lg:grid-cols-8"
                                   : "grid-cols-3 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8"
                   }`}
                 >
+                  {showAllTab && (
+                    <button
+                      onClick={() => handleTabChange(ALL_TAB_KEY)}
+                      className={`flex items-center justify-center gap-2 py-4 px-6 rounded-lg font-medium transition-all duration-200 relative ${
+                        allTabActive
+                          ? "bg-white dark:bg-stone-700 text-emerald-800 dark:text-amber-500 shadow-sm border border-emerald-200 dark:border-amber-600"
+                          : "text-emerald-700 dark:text-stone-300 hover:text-emerald-800 dark:hover:text-stone-100 hover:bg-emerald-50 dark:hover:bg-stone-700 hover:scale-[1.02] z-10"
+                      }`}
+                    >
+                      <LayoutGrid className="h-4 w-4" />
+                      <span className="font-semibold">All</span>
+                      <Badge
+                        className={`${
+                          allTabActive
+                            ? "bg-emerald-100 text-emerald-700 font-semibold dark:bg-stone-600 dark:text-amber-300"
+                            : "bg-emerald-200 text-emerald-800 dark:bg-stone-600 dark:text-stone-200"
+                        }`}
+                      >
+                        {totalServices}
+                      </Badge>
+                      {allTabActive && (
+                        <div className="absolute bottom-0 left-0 right-0 h-1 bg-emerald-600 dark:bg-amber-600 rounded-b-lg"></div>
+                      )}
+                    </button>
+                  )}
+
                   {/* Custom Tab Buttons */}
                   {config.tabs.map((tab) => (
                     <TooltipProvider key={tab.key}>
@@ -923,12 +1455,14 @@ export default function ServerDashboard() {
                         <TooltipTrigger asChild>
                           <button
                             onClick={() => handleTabChange(tab.key)}
+                            {...tabSortableProps(tab)}
                             className={`flex items-center justify-center gap-2 py-4 px-6 rounded-lg font-medium transition-all duration-200 relative ${
                               activeTab === tab.key
                                 ? "bg-white dark:bg-stone-700 text-emerald-800 dark:text-amber-500 shadow-sm border border-emerald-200 dark:border-amber-600"
                                 : "text-emerald-700 dark:text-stone-300 hover:text-emerald-800 dark:hover:text-stone-100 hover:bg-emerald-50 dark:hover:bg-stone-700 hover:scale-[1.02] z-10"
-                            }`}
+                            } ${tabDragClass(tab)}`}
                           >
+                            <TabHealthDot health={tabHealth[tab.key]} />
                             {getTabIcon(tab.icon)}
                             <span className="font-semibold">{tab.name}</span>
                             <Badge
@@ -958,6 +1492,9 @@ export default function ServerDashboard() {
                               <div>
                                 <strong>Specs:</strong> {tab.tooltip.specs}
                               </div>
+                              <div>
+                                <strong>Status:</strong> {getTabHealthLabel(tabHealth[tab.key])}
+                              </div>
                               <div>
                                 <strong>URL:</strong> <code className="text-xs break-all">{tab.mainUrl}</code>
                               </div>
@@ -971,8 +1508,29 @@ export default function ServerDashboard() {
               </div>
             )}
 
+            {/* Desktop "All" Tab Content */}
+            {!showResults && allTabActive && (
+              <div className="bg-white/70 dark:bg-stone-800/30 backdrop-blur-sm rounded-xl border border-emerald-200 dark:border-stone-700 p-6 shadow-lg">
+                <div className="flex items-center gap-3 mb-6">
+                  <div className="flex items-center gap-2">
+                    <LayoutGrid className="h-5 w-5" />
+                    <h2 className="text-2xl font-semibold text-emerald-800 dark:text-amber-500">All Services</h2>
+                  </div>
+                  <Badge variant="outline" className="border-emerald-300 dark:border-amber-600">
+                    {allServiceCount} services
+                  </Badge>
+                  <div className="ml-auto flex items-center gap-2">
+                    {renderGroupingSelect()}
+                    <ViewModeToggle value={viewMode} onChange={setViewMode} />
+                  </div>
+                </div>
+
+                {renderAllServices(false)}
+              </div>
+            )}
+
             {/* Desktop Tab Content */}
-            {!searchQuery && activeTabData && (
+            {!showResults && !allTabActive && activeTabData && (
               <div className="bg-white/70 dark:bg-stone-800/30 backdrop-blur-sm rounded-xl border border-emerald-200 dark:border-stone-700 p-6 shadow-lg">
                 <div className="flex items-center gap-3 mb-6">
                   <div className="flex items-center gap-2">
@@ -984,6 +1542,9 @@ export default function ServerDashboard() {
                   <Badge variant="outline" className="border-emerald-300 dark:border-amber-600">
                     {activeTabData.services.length} services
                   </Badge>
+                  {renderOrderToggle()}
+                  {renderResetOrder()}
+                  <ViewModeToggle value={viewMode} onChange={setViewMode} />
                   <div className="ml-auto flex items-center gap-2 text-sm text-muted-foreground">
                     <Link className="h-4 w-4 flex-shrink-0" />
                     <span className="font-mono text-sm truncate max-w-[200px] lg:max-w-none">
@@ -997,85 +1558,20 @@ export default function ServerDashboard() {
                     >
                       <Copy className="h-3 w-3" />
                     </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => showServerHistory(activeTabData)}
+                      title="Server history"
+                      className="h-8 w-8 p-0 flex-shrink-0"
+                    >
+                      <Activity className="h-3 w-3" />
+                      <span className="sr-only">Server history</span>
+                    </Button>
                   </div>
                 </div>
 
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {activeTabData.services.map((service: Service, index: number) => (
-                    <Card
-                      key={index}
-                      className="group hover:shadow-lg transition-all duration-200 border-0 shadow-md bg-white/90 dark:bg-stone-800/60 backdrop-blur-sm"
-                    >
-                      <CardHeader className="pb-3">
-                        <div className="flex items-center gap-3">
-                          <span className="text-2xl flex-shrink-0">{getServiceIcon(service)}</span>
-                          <div className="min-w-0 flex-1">
-                            <CardTitle className="text-lg group-hover:text-emerald-600 dark:group-hover:text-amber-500 transition-colors">
-                              {service.name}
-                            </CardTitle>
-                            <CardDescription className="text-sm mt-1 line-clamp-2">
-                              {service.description}
-                            </CardDescription>
-                          </div>
-                        </div>
-                      </CardHeader>
-                      <CardContent className="pt-0">
-                        <div className="space-y-3">
-                          <Button
-                            onClick={() => openUrl(service.url)}
-                            className="w-full h-10 bg-emerald-600 hover:bg-emerald-700 dark:bg-amber-700 dark:hover:bg-amber-600 text-sm"
-                            variant="default"
-                          >
-                            <span className="mr-2">Open Service</span>
-                            <ExternalLink className="h-4 w-4" />
-                          </Button>
-
-                          {service.alt_url && (
-                            <Button
-                              onClick={() => openUrl(service.alt_url!)}
-                              className="w-full h-10 border-emerald-200 hover:bg-emerald-50 dark:border-amber-600 dark:hover:bg-stone-700 text-sm"
-                              variant="outline"
-                            >
-                              <span className="mr-2">Alternative URL</span>
-                              <ExternalLink className="h-4 w-4" />
-                            </Button>
-                          )}
-
-                          <div className="space-y-2">
-                            <div
-                              className="text-xs text-muted-foreground bg-muted/50 rounded p-2 font-mono cursor-pointer hover:bg-muted/70 transition-colors active:bg-muted/80"
-                              onClick={() => copyToClipboard(service.url, service.name)}
-                            >
-                              <div className="flex items-center justify-between gap-2">
-                                <div className="truncate flex-1 text-xs">{service.url}</div>
-                                {copiedUrl === service.url ? (
-                                  <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
-                                ) : (
-                                  <Copy className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                                )}
-                              </div>
-                            </div>
-                            {service.alt_url && (
-                              <div
-                                className="text-xs text-muted-foreground bg-muted/50 rounded p-2 font-mono cursor-pointer hover:bg-muted/70 transition-colors active:bg-muted/80"
-                                onClick={() => copyToClipboard(service.alt_url!, `${service.name} (Alt)`)}
-                              >
-                                <div className="flex items-center justify-between gap-2">
-                                  <div className="truncate flex-1 text-xs">Alt: {service.alt_url}</div>
-                                  {copiedUrl === service.alt_url ? (
-                                    <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
-                                  ) : (
-                                    <Copy className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-                                  )}
-                                </div>
-                              </div>
-                            )}
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  ))}
-                </div>
+                {renderTabServices(activeTabData, false)}
               </div>
             )}
           </div>
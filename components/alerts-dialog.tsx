@@ -0,0 +1,175 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Loader2, Megaphone, Send } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/hooks/use-toast"
+import type { AlertChannelStatus, AlertDelivery } from "@/lib/alerts"
+import { setApiToken } from "@/lib/config-api"
+import { AlertApiError, fetchAlertChannels, sendTestAlert } from "@/lib/status-api"
+import type { AlertChannelType } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+const typeLabels: Record<AlertChannelType, string> = {
+  webhook: "Webhook",
+  ntfy: "ntfy",
+  gotify: "Gotify",
+  discord: "Discord",
+  slack: "Slack",
+  email: "Email",
+}
+
+interface AlertsButtonProps {
+  onClick: () => void
+  // Show a label next to the icon, for the mobile sidebar
+  showLabel?: boolean
+  className?: string
+}
+
+// Opens the list of the server's alert channels
+export function AlertsButton({ onClick, showLabel, className }: AlertsButtonProps) {
+  return (
+    <Button
+      variant="outline"
+      size={showLabel ? "default" : "icon"}
+      onClick={onClick}
+      title="Alert channels"
+      className={cn(showLabel && "gap-2", className)}
+    >
+      <Megaphone className="h-4 w-4" />
+      {showLabel ? <span>Alerts</span> : null}
+      <span className="sr-only">Alert channels</span>
+    </Button>
+  )
+}
+
+function LastDelivery({ delivery }: { delivery?: AlertDelivery }) {
+  if (!delivery) return <span className="text-muted-foreground">None since the server started</span>
+
+  const what = delivery.kind === "test" ? "Test" : "Alert"
+  const when = formatDistanceToNow(delivery.at, { addSuffix: true })
+  return delivery.ok ? (
+    <span>
+      {what} sent {when}
+    </span>
+  ) : (
+    <span className="text-red-700 dark:text-red-400" title={delivery.error}>
+      {what} failed {when}: {delivery.error}
+    </span>
+  )
+}
+
+interface AlertsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// The alert channels of the server's config, with a test send for each
+export function AlertsDialog({ open, onOpenChange }: AlertsDialogProps) {
+  const [channels, setChannels] = useState<AlertChannelStatus[] | null>(null)
+  const [sending, setSending] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    fetchAlertChannels()
+      .then(setChannels)
+      .catch((err) => {
+        console.error("Failed to load alert channels:", err)
+        setChannels([])
+      })
+  }, [open])
+
+  const sendTest = useCallback(async (name: string) => {
+    setSending(name)
+    try {
+      setChannels(await sendTestAlert(name))
+      toast({ title: "Test alert sent", description: `Check that it arrived through ${name}`, duration: 3000 })
+    } catch (err) {
+      if (err instanceof AlertApiError && err.status === 401) {
+        const token = window.prompt("This server requires an API token to send test alerts")
+        if (token) {
+          setApiToken(token)
+          await sendTest(name)
+          return
+        }
+      }
+
+      toast({
+        title: `Test alert to ${name} failed`,
+        description: err instanceof Error ? err.message : "The channel did not accept the alert",
+        variant: "destructive",
+        duration: 5000,
+      })
+      fetchAlertChannels()
+        .then(setChannels)
+        .catch(() => {})
+    } finally {
+      setSending(null)
+    }
+  }, [])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Alerts</DialogTitle>
+          <DialogDescription>
+            The server sends alerts through these channels when servers or services go down or come back up.
+          </DialogDescription>
+        </DialogHeader>
+
+        {channels === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : channels.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">The server has no alert channels yet</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Last delivery</TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {channels.map((channel) => (
+                  <TableRow key={channel.name}>
+                    <TableCell className="font-medium">{channel.name}</TableCell>
+                    <TableCell>{typeLabels[channel.type]}</TableCell>
+                    <TableCell className="max-w-64 truncate text-sm">
+                      <LastDelivery delivery={channel.lastDelivery} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={sending !== null}
+                        onClick={() => sendTest(channel.name)}
+                        className="gap-2"
+                      >
+                        {sending === channel.name ? (
+                          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        ) : (
+                          <Send className="h-3.5 w-3.5" />
+                        )}
+                        Send test
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
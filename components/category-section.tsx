@@ -0,0 +1,31 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { ChevronDown } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { cn } from "@/lib/utils"
+
+interface CategorySectionProps {
+  title: string
+  count: number
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  children: ReactNode
+}
+
+export function CategorySection({ title, count, open, onOpenChange, children }: CategorySectionProps) {
+  return (
+    <Collapsible open={open} onOpenChange={onOpenChange} className="space-y-3">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 text-left text-sm font-semibold text-emerald-800 dark:text-amber-500">
+        <ChevronDown className={cn("h-4 w-4 transition-transform", !open && "-rotate-90")} />
+        {title}
+        <Badge variant="outline" className="border-emerald-300 dark:border-amber-600">
+          {count}
+        </Badge>
+      </CollapsibleTrigger>
+      <CollapsibleContent>{children}</CollapsibleContent>
+    </Collapsible>
+  )
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { format } from "date-fns"
+import { ShieldAlert } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { getDaysRemaining, type CertificateInfo } from "@/lib/certificates"
+import { cn } from "@/lib/utils"
+
+const formatDays = (days: number) => `${days} ${days === 1 ? "day" : "days"}`
+
+// "expires in 5 days", "expires today", "expired 2 days ago"
+export const describeExpiry = (certificate: CertificateInfo, now = Date.now()) => {
+  const days = getDaysRemaining(certificate, now)
+  if (certificate.validTo <= now) {
+    const ago = -days - 1
+    return ago === 0 ? "expired today" : `expired ${formatDays(ago)} ago`
+  }
+  return days === 0 ? "expires today" : `expires in ${formatDays(days)}`
+}
+
+interface CertificateBadgeProps {
+  certificate: CertificateInfo
+  // Which of the service's URLs it belongs to, e.g. "Alt"
+  label?: string
+  className?: string
+}
+
+// Warning for a certificate that expires soon or already has
+export function CertificateBadge({ certificate, label, className }: CertificateBadgeProps) {
+  const expired = certificate.validTo <= Date.now()
+  const title = [
+    `${certificate.host}: valid until ${format(certificate.validTo, "d MMM yyyy HH:mm")}`,
+    certificate.issuer && `Issued by ${certificate.issuer}`,
+  ]
+    .filter(Boolean)
+    .join("\n")
+
+  return (
+    <Badge
+      variant="outline"
+      title={title}
+      className={cn(
+        "gap-1.5 font-medium",
+        expired
+          ? "border-red-300 text-red-700 dark:border-red-700 dark:text-red-400"
+          : "border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-400",
+        className,
+      )}
+    >
+      <ShieldAlert className="h-3 w-3" />
+      {label ? `${label} certificate` : "Certificate"} {describeExpiry(certificate)}
+    </Badge>
+  )
+}
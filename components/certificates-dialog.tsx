@@ -0,0 +1,135 @@
+"use client"
+
+import { useMemo } from "react"
+import { format } from "date-fns"
+import { ShieldAlert, ShieldCheck } from "lucide-react"
+
+import { describeExpiry } from "@/components/certificate-badge"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  getCertificateOwners,
+  getCertificateState,
+  getDaysRemaining,
+  type CertificateInfo,
+  type CertificateState,
+} from "@/lib/certificates"
+import type { Config } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+const stateStyles: Record<CertificateState, string> = {
+  valid: "text-green-700 dark:text-green-400",
+  expiring: "text-amber-700 dark:text-amber-400",
+  expired: "text-red-700 dark:text-red-400",
+}
+
+interface CertificatesButtonProps {
+  certificates: Record<string, CertificateInfo>
+  warnDays: number
+  onClick: () => void
+  // Show a label next to the icon, for the mobile sidebar
+  showLabel?: boolean
+  className?: string
+}
+
+// Opens the certificates overview; turns into a warning when any certificate needs attention
+export function CertificatesButton({ certificates, warnDays, onClick, showLabel, className }: CertificatesButtonProps) {
+  const warnings = Object.values(certificates).filter((cert) => getCertificateState(cert, warnDays) !== "valid")
+  const Icon = warnings.length > 0 ? ShieldAlert : ShieldCheck
+  const description =
+    warnings.length > 0
+      ? `Certificates: ${warnings.length} expiring within ${warnDays} days or expired`
+      : "Certificates"
+
+  return (
+    <Button
+      variant="outline"
+      size={showLabel ? "default" : "icon"}
+      onClick={onClick}
+      title={description}
+      className={cn(showLabel && "gap-2", className)}
+    >
+      <Icon className={cn("h-4 w-4", warnings.length > 0 && "text-amber-600 dark:text-amber-500")} />
+      {showLabel ? <span>Certificates</span> : null}
+      <span className="sr-only">{description}</span>
+    </Button>
+  )
+}
+
+interface CertificatesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  config: Config | null
+  certificates: Record<string, CertificateInfo>
+  warnDays: number
+}
+
+// Every certificate the server has seen on a probed https URL, soonest expiry first
+export function CertificatesDialog({ open, onOpenChange, config, certificates, warnDays }: CertificatesDialogProps) {
+  const sorted = useMemo(() => Object.values(certificates).sort((a, b) => a.validTo - b.validTo), [certificates])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Certificates</DialogTitle>
+          <DialogDescription>
+            TLS certificates of the https URLs checked by the server. Services warn {warnDays} days before expiry.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sorted.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No certificates read yet</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Issuer</TableHead>
+                  <TableHead>Names</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Days left</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sorted.map((certificate) => {
+                  const owners = config ? getCertificateOwners(config, certificate.url) : []
+                  const state = getCertificateState(certificate, warnDays)
+                  return (
+                    <TableRow key={certificate.url}>
+                      <TableCell className="max-w-56">
+                        <div className="truncate font-medium">{owners.join(", ") || certificate.host}</div>
+                        <div className="truncate font-mono text-xs text-muted-foreground">{certificate.url}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{certificate.issuer || "—"}</div>
+                        {!certificate.trusted && (
+                          <div className="text-xs text-amber-700 dark:text-amber-400">
+                            Untrusted ({certificate.trustError})
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-48">
+                        <div className="truncate text-xs" title={certificate.sans.join("\n")}>
+                          {certificate.sans.join(", ") || certificate.subject}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap" title={describeExpiry(certificate)}>
+                        {format(certificate.validTo, "d MMM yyyy")}
+                      </TableCell>
+                      <TableCell className={cn("text-right font-medium tabular-nums", stateStyles[state])}>
+                        {getDaysRemaining(certificate)}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,234 @@
+"use client"
+
+import { useEffect, useMemo, useState, type KeyboardEvent } from "react"
+import { defaultFilter } from "cmdk"
+import { Clock, Server } from "lucide-react"
+
+import { ConfigIcon } from "@/components/config-icon"
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { getPreferredUrl, type NetworkProfile } from "@/lib/network"
+import { getServiceEndpoints, getServiceId } from "@/lib/services"
+import type { Config } from "@/lib/types"
+import { getRecentServiceIds, usageBoost, type UsageEntry, type UsageStats } from "@/lib/usage"
+
+interface PaletteItem {
+  id: string
+  kind: "service" | "tab"
+  serviceId?: string
+  label: string
+  detail: string
+  url: string
+  altUrl?: string
+  tabKey: string
+  tabName: string
+  icon?: string
+  keywords: string[]
+}
+
+const RECENT_LIMIT = 8
+
+// Service items open the URL that works from the current network; Shift+Enter opens the other one
+const buildItems = (config: Config, profile: NetworkProfile | null): PaletteItem[] =>
+  config.tabs.flatMap((tab) => [
+    {
+      id: `tab:${tab.key}`,
+      kind: "tab" as const,
+      label: tab.name,
+      detail: tab.mainUrl,
+      url: tab.mainUrl,
+      tabKey: tab.key,
+      tabName: tab.name,
+      keywords: [tab.mainUrl, tab.tooltip.title, tab.tooltip.location, tab.tooltip.specs],
+    },
+    ...tab.services.map((service) => {
+      const url = getPreferredUrl(service, profile)
+      return {
+        id: `service:${tab.key}/${getServiceId(service)}`,
+        kind: "service" as const,
+        serviceId: getServiceId(service),
+        label: service.name,
+        detail: url,
+        url,
+        altUrl: url === service.url ? service.alt_url : service.url,
+        tabKey: tab.key,
+        tabName: tab.name,
+        icon: service.icon,
+        keywords: [
+          service.name,
+          service.description,
+          ...getServiceEndpoints(service).map((endpoint) => endpoint.url),
+          tab.name,
+        ],
+      }
+    }),
+  ])
+
+// Items in the "Recent" group get this prefix so their cmdk values stay unique
+const RECENT_PREFIX = "recent:"
+
+interface CommandPaletteProps {
+  config: Config
+  networkProfile: NetworkProfile | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onOpenUrl: (url: string) => void
+  onCopyUrl: (url: string, label: string) => void
+  onSelectTab: (tabKey: string) => void
+  // The dashboard's usage log (useUsageLog); opens and copies from the palette are logged through onOpenUrl
+  // and onCopyUrl like everywhere else
+  usageEntries: UsageEntry[]
+  usageStats: Map<string, UsageStats>
+}
+
+export function CommandPalette({
+  config,
+  networkProfile,
+  open,
+  onOpenChange,
+  onOpenUrl,
+  onCopyUrl,
+  onSelectTab,
+  usageEntries,
+  usageStats,
+}: CommandPaletteProps) {
+  const [search, setSearch] = useState("")
+  const [selected, setSelected] = useState("")
+
+  const items = useMemo(() => buildItems(config, networkProfile), [config, networkProfile])
+  const itemsById = useMemo(() => new Map(items.map((item) => [item.id, item])), [items])
+  const recentItems = useMemo(
+    () =>
+      getRecentServiceIds(usageEntries, RECENT_LIMIT)
+        .map((serviceId) => items.find((item) => item.serviceId === serviceId))
+        .filter((item): item is PaletteItem => !!item),
+    [usageEntries, items],
+  )
+
+  // Ctrl/Cmd+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault()
+        onOpenChange(!open)
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [open, onOpenChange])
+
+  useEffect(() => {
+    if (open) setSearch("")
+  }, [open])
+
+  const run = (item: PaletteItem, action: "open" | "alt" | "copy") => {
+    if (action === "copy") {
+      onCopyUrl(item.url, item.label)
+      return
+    }
+
+    onOpenChange(false)
+    if (action === "alt" && item.altUrl) {
+      onOpenUrl(item.altUrl)
+    } else if (item.kind === "tab") {
+      onSelectTab(item.tabKey)
+    } else {
+      onOpenUrl(item.url)
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const item = itemsById.get(selected.replace(RECENT_PREFIX, ""))
+    if (!item) return
+
+    if (event.key === "Enter" && event.shiftKey) {
+      event.preventDefault()
+      run(item, "alt")
+    } else if (event.key.toLowerCase() === "c" && (event.ctrlKey || event.metaKey)) {
+      // Leave normal copy alone when the user has selected text in the input
+      const input = event.target as HTMLInputElement
+      if (input.selectionStart !== input.selectionEnd) return
+      event.preventDefault()
+      run(item, "copy")
+    }
+  }
+
+  // Frequently used services rank above other matches of similar quality, as in the dashboard search
+  const filter = (value: string, query: string, keywords?: string[]) => {
+    const score = defaultFilter!(value, query, keywords)
+    const serviceId = itemsById.get(value.replace(RECENT_PREFIX, ""))?.serviceId
+    return score > 0 && serviceId ? score + usageBoost(usageStats.get(serviceId)) / 3 : score
+  }
+
+  const renderItem = (item: PaletteItem, value: string) => (
+    <CommandItem key={value} value={value} keywords={item.keywords} onSelect={() => run(item, "open")}>
+      {item.kind === "service" ? (
+        <ConfigIcon icon={item.icon} className="h-5 w-5" emojiClassName="w-5 text-center" />
+      ) : (
+        <Server className="text-emerald-600 dark:text-amber-600" />
+      )}
+      <div className="min-w-0 flex-1">
+        <div className="truncate">{item.label}</div>
+        <div className="truncate font-mono text-xs text-muted-foreground">{item.detail}</div>
+      </div>
+      {item.kind === "service" && <CommandShortcut>{item.tabName}</CommandShortcut>}
+    </CommandItem>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Jump to service</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search services and servers. Enter opens, Shift+Enter opens the alternative URL, Ctrl+C copies the URL.
+        </DialogDescription>
+        <Command
+          value={selected}
+          onValueChange={setSelected}
+          filter={filter}
+          onKeyDown={handleKeyDown}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2 [&_[cmdk-item]_svg]:h-5 [&_[cmdk-item]_svg]:w-5"
+        >
+          <CommandInput placeholder="Search services, servers and URLs..." value={search} onValueChange={setSearch} />
+          <CommandList className="max-h-[400px]">
+            <CommandEmpty>No services found.</CommandEmpty>
+            {!search && recentItems.length > 0 && (
+              <CommandGroup heading="Recent">
+                {recentItems.map((item) => renderItem(item, `${RECENT_PREFIX}${item.id}`))}
+              </CommandGroup>
+            )}
+            <CommandGroup heading="Services">
+              {items.filter((item) => item.kind === "service").map((item) => renderItem(item, item.id))}
+            </CommandGroup>
+            <CommandGroup heading="Servers">
+              {items.filter((item) => item.kind === "tab").map((item) => renderItem(item, item.id))}
+            </CommandGroup>
+          </CommandList>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 border-t px-3 py-2 text-xs text-muted-foreground">
+            <span>
+              <kbd className="font-mono">↵</kbd> open
+            </span>
+            <span>
+              <kbd className="font-mono">⇧↵</kbd> alternative URL
+            </span>
+            <span>
+              <kbd className="font-mono">Ctrl C</kbd> copy URL
+            </span>
+            <span className="ml-auto flex items-center gap-1">
+              <Clock className="h-3 w-3" /> recent first
+            </span>
+          </div>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  )
+}
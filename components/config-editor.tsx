@@ -0,0 +1,320 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowDown, ArrowUp, Check, Download, Plus, Save, Trash2, X } from "lucide-react"
+
+import { ConfigIcon } from "@/components/config-icon"
+import { ConfigIssueList } from "@/components/config-issues"
+import { ServiceForm, TabForm } from "@/components/config-forms"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Separator } from "@/components/ui/separator"
+import { downloadConfig, exportFileNames, type ExportFormat } from "@/lib/config-export"
+import { validateConfig } from "@/lib/config-schema"
+import type { Config, Service, Tab } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+const move = <T,>(items: T[], from: number, to: number) => {
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+const newTab = (config: Config): Tab => {
+  let n = config.tabs.length + 1
+  while (config.tabs.some((tab) => tab.key === `server-${n}`)) n++
+
+  return {
+    name: `Server ${n}`,
+    key: `server-${n}`,
+    id: `server-${n}`,
+    mainUrl: "http://localhost",
+    icon: "server",
+    tooltip: { title: `Server ${n}`, description: "", location: "", specs: "" },
+    services: [],
+  }
+}
+
+const newService = (tab: Tab): Service => ({
+  name: "New Service",
+  url: tab.mainUrl,
+  description: "",
+})
+
+interface RowProps {
+  icon?: string
+  label: string
+  detail: string
+  selected: boolean
+  canMoveUp: boolean
+  canMoveDown: boolean
+  onSelect: () => void
+  onMove: (offset: number) => void
+  onRemove: () => void
+}
+
+function EditorRow({ icon, label, detail, selected, canMoveUp, canMoveDown, onSelect, onMove, onRemove }: RowProps) {
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1 rounded-lg border p-1 pl-3 transition-colors",
+        selected
+          ? "bg-emerald-100 dark:bg-stone-800 border-emerald-300 dark:border-amber-600"
+          : "border-transparent hover:bg-emerald-50 dark:hover:bg-stone-800",
+      )}
+    >
+      <button onClick={onSelect} className="flex-1 min-w-0 text-left py-1">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <ConfigIcon icon={icon} className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">{label}</span>
+        </div>
+        <div className="text-xs text-muted-foreground font-mono truncate">{detail}</div>
+      </button>
+      <Button variant="ghost" size="icon" className="h-7 w-7" disabled={!canMoveUp} onClick={() => onMove(-1)}>
+        <ArrowUp className="h-3 w-3" />
+        <span className="sr-only">Move up</span>
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7" disabled={!canMoveDown} onClick={() => onMove(1)}>
+        <ArrowDown className="h-3 w-3" />
+        <span className="sr-only">Move down</span>
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7 hover:text-red-600" onClick={onRemove}>
+        <Trash2 className="h-3 w-3" />
+        <span className="sr-only">Remove</span>
+      </Button>
+    </div>
+  )
+}
+
+interface ConfigEditorProps {
+  config: Config
+  onChange: (config: Config) => void
+  onApply: () => void
+  onDiscard: () => void
+  // Only available in server mode, where edits can be written back to the config file
+  onSave?: () => void
+  saving?: boolean
+  // The loaded config had broken entries that were left out of the draft; saving or exporting would lose them
+  incomplete?: boolean
+}
+
+// Side panel for editing the draft config; the dashboard behind it renders the draft as a live preview
+export function ConfigEditor({
+  config,
+  onChange,
+  onApply,
+  onDiscard,
+  onSave,
+  saving,
+  incomplete,
+}: ConfigEditorProps) {
+  const [tabIndex, setTabIndex] = useState<number | null>(config.tabs.length > 0 ? 0 : null)
+  const [serviceIndex, setServiceIndex] = useState<number | null>(null)
+
+  const { issues } = validateConfig(config)
+  const selectedTab = tabIndex !== null ? config.tabs[tabIndex] : undefined
+  const selectedService = selectedTab && serviceIndex !== null ? selectedTab.services[serviceIndex] : undefined
+
+  const setTabs = (tabs: Tab[]) => onChange({ ...config, tabs })
+
+  const updateTab = (index: number, tab: Tab) => {
+    setTabs(config.tabs.map((current, i) => (i === index ? tab : current)))
+  }
+
+  const setServices = (index: number, services: Service[]) => {
+    updateTab(index, { ...config.tabs[index], services })
+  }
+
+  const selectTab = (index: number | null) => {
+    setTabIndex(index)
+    setServiceIndex(null)
+  }
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-50 flex w-full flex-col bg-white/95 dark:bg-stone-900/95 backdrop-blur-md border-l border-emerald-200 dark:border-stone-700 shadow-xl md:w-[28rem]">
+      {/* Editor Header */}
+      <div className="flex items-center justify-between gap-2 p-4 border-b border-emerald-200 dark:border-stone-700">
+        <h2 className="font-semibold text-emerald-800 dark:text-amber-500">Edit configuration</h2>
+        <div className="flex items-center gap-1">
+          {onSave && (
+            <Button
+              size="sm"
+              onClick={onSave}
+              disabled={saving || incomplete || issues.length > 0}
+              className="gap-1 bg-emerald-600 hover:bg-emerald-700 dark:bg-amber-700 dark:hover:bg-amber-600"
+            >
+              <Save className="h-4 w-4" />
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant={onSave ? "outline" : "default"}
+            onClick={onApply}
+            className={cn(
+              "gap-1",
+              !onSave && "bg-emerald-600 hover:bg-emerald-700 dark:bg-amber-700 dark:hover:bg-amber-600",
+            )}
+          >
+            <Check className="h-4 w-4" />
+            Apply
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onDiscard} className="gap-1">
+            <X className="h-4 w-4" />
+            Discard
+          </Button>
+        </div>
+      </div>
+
+      {/* Export */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-emerald-200 dark:border-stone-700">
+        <span className="text-xs text-muted-foreground mr-auto">Export</span>
+        {(Object.keys(exportFileNames) as ExportFormat[]).map((format) => (
+          <Button
+            key={format}
+            variant="outline"
+            size="sm"
+            onClick={() => downloadConfig(config, format)}
+            disabled={incomplete}
+            className="h-7 gap-1 text-xs"
+          >
+            <Download className="h-3 w-3" />
+            {exportFileNames[format]}
+          </Button>
+        ))}
+        {incomplete && (
+          <p className="w-full text-xs text-amber-700 dark:text-amber-400">
+            Saving and export are off: the config file has problems, and the broken entries left out here would be
+            deleted. Fix them in the file and reload.
+          </p>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-6 p-4">
+          {issues.length > 0 && (
+            <ConfigIssueList
+              issues={issues}
+              className="rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50/90 dark:bg-stone-800/80 p-3"
+            />
+          )}
+
+          {/* Tabs */}
+          <section className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold">Servers</h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 text-xs"
+                onClick={() => {
+                  setTabs([...config.tabs, newTab(config)])
+                  selectTab(config.tabs.length)
+                }}
+              >
+                <Plus className="h-3 w-3" />
+                Add server
+              </Button>
+            </div>
+            {config.tabs.map((tab, index) => (
+              <EditorRow
+                key={index}
+                icon={tab.icon}
+                label={tab.name}
+                detail={tab.mainUrl}
+                selected={index === tabIndex}
+                canMoveUp={index > 0}
+                canMoveDown={index < config.tabs.length - 1}
+                onSelect={() => selectTab(index)}
+                onMove={(offset) => {
+                  setTabs(move(config.tabs, index, index + offset))
+                  selectTab(index + offset)
+                }}
+                onRemove={() => {
+                  setTabs(config.tabs.filter((_, i) => i !== index))
+                  selectTab(null)
+                }}
+              />
+            ))}
+          </section>
+
+          {selectedTab && tabIndex !== null && (
+            <>
+              <Separator />
+              <section className="space-y-3">
+                <h3 className="text-sm font-semibold">{selectedTab.name}</h3>
+                <TabForm key={tabIndex} tab={selectedTab} onChange={(tab) => updateTab(tabIndex, tab)} />
+              </section>
+
+              <Separator />
+              <section className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold flex items-center gap-2">
+                    Services
+                    <Badge variant="outline">{selectedTab.services.length}</Badge>
+                  </h3>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 gap-1 text-xs"
+                    onClick={() => {
+                      setServices(tabIndex, [...selectedTab.services, newService(selectedTab)])
+                      setServiceIndex(selectedTab.services.length)
+                    }}
+                  >
+                    <Plus className="h-3 w-3" />
+                    Add service
+                  </Button>
+                </div>
+                {selectedTab.services.map((service, index) => (
+                  <EditorRow
+                    key={index}
+                    icon={service.icon}
+                    label={service.name}
+                    detail={service.url}
+                    selected={index === serviceIndex}
+                    canMoveUp={index > 0}
+                    canMoveDown={index < selectedTab.services.length - 1}
+                    onSelect={() => setServiceIndex(index)}
+                    onMove={(offset) => {
+                      setServices(tabIndex, move(selectedTab.services, index, index + offset))
+                      setServiceIndex(index + offset)
+                    }}
+                    onRemove={() => {
+                      setServices(
+                        tabIndex,
+                        selectedTab.services.filter((_, i) => i !== index),
+                      )
+                      setServiceIndex(null)
+                    }}
+                  />
+                ))}
+              </section>
+
+              {selectedService && serviceIndex !== null && (
+                <>
+                  <Separator />
+                  <section className="space-y-3">
+                    <h3 className="text-sm font-semibold">{selectedService.name}</h3>
+                    <ServiceForm
+                      key={`${tabIndex}-${serviceIndex}`}
+                      service={selectedService}
+                      onChange={(service) =>
+                        setServices(
+                          tabIndex,
+                          selectedTab.services.map((current, i) => (i === serviceIndex ? service : current)),
+                        )
+                      }
+                    />
+                  </section>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
@@ -0,0 +1,492 @@
+"use client"
+
+import { useEffect } from "react"
+import { useFieldArray, useForm, type Control, type FieldPath, type FieldValues } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Plus, Trash2 } from "lucide-react"
+import { z } from "zod"
+
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { endpointSchema, serviceUrlSchema, STATUS_CODE_PATTERN, tabSchema } from "@/lib/config-schema"
+import type { HealthCheck, HealthCheckType, Service, ServiceEndpoint, Tab } from "@/lib/types"
+
+interface TextFieldProps<T extends FieldValues> {
+  control: Control<T>
+  name: FieldPath<T>
+  label: string
+  placeholder?: string
+  description?: string
+}
+
+function TextField<T extends FieldValues>({ control, name, label, placeholder, description }: TextFieldProps<T>) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} value={field.value ?? ""} />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+interface SelectFieldProps<T extends FieldValues> {
+  control: Control<T>
+  name: FieldPath<T>
+  label: string
+  options: readonly string[]
+  // Display names for options whose value reads poorly, e.g. "tcp"
+  labels?: Record<string, string>
+  description?: string
+}
+
+function SelectField<T extends FieldValues>({
+  control,
+  name,
+  label,
+  options,
+  labels,
+  description,
+}: SelectFieldProps<T>) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select value={field.value} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {labels?.[option] ?? option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {description && <FormDescription>{description}</FormDescription>}
+        </FormItem>
+      )}
+    />
+  )
+}
+
+// Tab form: every tab field except its services, which are edited separately
+const tabFormSchema = tabSchema.omit({ services: true })
+
+type TabFormValues = z.infer<typeof tabFormSchema>
+
+interface TabFormProps {
+  tab: Tab
+  onChange: (tab: Tab) => void
+}
+
+export function TabForm({ tab, onChange }: TabFormProps) {
+  const form = useForm<TabFormValues>({
+    resolver: zodResolver(tabFormSchema),
+    mode: "onChange",
+    defaultValues: {
+      name: tab.name,
+      key: tab.key,
+      id: tab.id,
+      mainUrl: tab.mainUrl,
+      icon: tab.icon,
+      tooltip: { ...tab.tooltip },
+    },
+  })
+
+  // Push every valid edit straight into the draft so the dashboard previews it live
+  useEffect(() => {
+    const subscription = form.watch((values) => {
+      const parsed = tabFormSchema.safeParse(values)
+      if (parsed.success) {
+        onChange({ ...tab, ...parsed.data })
+      }
+    })
+    return () => subscription.unsubscribe()
+  }, [form, tab, onChange])
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={(e) => e.preventDefault()}>
+        <div className="grid grid-cols-2 gap-3">
+          <TextField control={form.control} name="name" label="Name" />
+          <TextField control={form.control} name="icon" label="Icon" placeholder="server, film, 🖥️, /icons/nas.png" />
+          <TextField control={form.control} name="key" label="Key" description="Unique, used in links" />
+          <TextField control={form.control} name="id" label="ID" />
+        </div>
+        <TextField control={form.control} name="mainUrl" label="Main URL" placeholder="http://192.168.0.100" />
+        <TextField control={form.control} name="tooltip.title" label="Tooltip title" />
+        <TextField control={form.control} name="tooltip.description" label="Tooltip description" />
+        <div className="grid grid-cols-2 gap-3">
+          <TextField control={form.control} name="tooltip.location" label="Location" />
+          <TextField control={form.control} name="tooltip.specs" label="Specs" />
+        </div>
+      </form>
+    </Form>
+  )
+}
+
+const optionalSeconds = z.string().regex(/^\d*$/, { message: "must be a whole number of seconds" })
+
+const optionalPort = z
+  .string()
+  .regex(/^\d*$/, { message: "must be a port number" })
+  .refine((value) => !value || (Number(value) >= 1 && Number(value) <= 65535), { message: "must be a port number" })
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+const CHECK_TYPES = ["http", "tcp", "tls", "dns"] as const
+const CHECK_TYPE_LABELS: Record<HealthCheckType, string> = {
+  http: "HTTP request",
+  tcp: "TCP connect",
+  tls: "TLS handshake",
+  dns: "DNS lookup",
+}
+const DNS_RECORDS = ["A", "AAAA", "CNAME", "MX", "NS", "TXT"] as const
+
+// Check options with a form field; the rest (headers, jsonPath, unknown keys, ...) are kept as written
+const FORM_CHECK_OPTIONS: string[] = [
+  "enabled",
+  "type",
+  "interval",
+  "timeout",
+  "path",
+  "method",
+  "keyword",
+  "followRedirects",
+  "expectedStatus",
+  "port",
+  "record",
+  "expectedRecords",
+] satisfies (keyof HealthCheck)[]
+
+// Endpoint kind and visibility are always set in the form; defaults are left out of the config again
+const endpointFormSchema = endpointSchema.required({ kind: true, visibility: true })
+
+const serviceFormSchema = z.object({
+  name: z.string().min(1, { message: "must not be empty" }),
+  id: z.string(),
+  url: serviceUrlSchema,
+  description: z.string(),
+  alt_url: serviceUrlSchema.or(z.literal("")),
+  endpoints: z.array(endpointFormSchema),
+  icon: z.string(),
+  category: z.string(),
+  tags: z.string(),
+  healthcheck: z.object({
+    enabled: z.boolean(),
+    type: z.enum(CHECK_TYPES),
+    path: z.string(),
+    method: z.enum(["GET", "HEAD"]),
+    expectedStatus: z.string().refine((value) => splitList(value).every((code) => STATUS_CODE_PATTERN.test(code)), {
+      message: "comma-separated status codes or ranges",
+    }),
+    keyword: z.string(),
+    followRedirects: z.boolean(),
+    port: optionalPort,
+    record: z.enum(DNS_RECORDS),
+    expectedRecords: z.string(),
+    interval: optionalSeconds,
+    timeout: optionalSeconds,
+  }),
+})
+
+type ServiceFormValues = z.infer<typeof serviceFormSchema>
+
+const serviceToForm = (service: Service): ServiceFormValues => {
+  const check = service.healthcheck ?? {}
+  const expected = check.expectedStatus === undefined ? [] : [check.expectedStatus].flat()
+
+  return {
+    name: service.name,
+    id: service.id ?? "",
+    url: service.url,
+    description: service.description,
+    alt_url: service.alt_url ?? "",
+    endpoints: (service.endpoints ?? []).map((endpoint) => ({
+      ...endpoint,
+      kind: endpoint.kind ?? "web",
+      visibility: endpoint.visibility ?? "always",
+    })),
+    icon: service.icon ?? "",
+    category: service.category ?? "",
+    tags: (service.tags ?? []).join(", "),
+    healthcheck: {
+      enabled: check.enabled !== false,
+      type: check.type ?? "http",
+      path: check.path ?? "",
+      method: check.method ?? "GET",
+      expectedStatus: expected.join(", "),
+      keyword: check.keyword ?? "",
+      followRedirects: check.followRedirects !== false,
+      port: check.port?.toString() ?? "",
+      record: check.record ?? "A",
+      expectedRecords: (check.expectedRecords ?? []).join(", "),
+      interval: check.interval?.toString() ?? "",
+      timeout: check.timeout?.toString() ?? "",
+    },
+  }
+}
+
+// Convert form strings back to config values, leaving defaults out of the exported config
+const formToService = (service: Service, values: ServiceFormValues): Service => {
+  const check = values.healthcheck
+  const healthcheck: HealthCheck = Object.fromEntries(
+    Object.entries(service.healthcheck ?? {}).filter(([key]) => !FORM_CHECK_OPTIONS.includes(key)),
+  )
+  if (!check.enabled) healthcheck.enabled = false
+  if (check.type !== "http") healthcheck.type = check.type
+  if (check.interval) healthcheck.interval = Number(check.interval)
+  if (check.timeout) healthcheck.timeout = Number(check.timeout)
+
+  // Only the options of the chosen check type are written
+  if (check.type === "http") {
+    if (check.path) healthcheck.path = check.path
+    if (check.method !== "GET") healthcheck.method = check.method
+    if (check.keyword) healthcheck.keyword = check.keyword
+    if (!check.followRedirects) healthcheck.followRedirects = false
+
+    // Plain codes stay numbers; ranges such as "2xx" are kept as strings
+    const codes = splitList(check.expectedStatus).map((code) => (/^\d+$/.test(code) ? Number(code) : code))
+    if (codes.length > 0) healthcheck.expectedStatus = codes.length === 1 ? codes[0] : codes
+  }
+  if ((check.type === "tcp" || check.type === "tls") && check.port) healthcheck.port = Number(check.port)
+  if (check.type === "dns") {
+    if (check.record !== "A") healthcheck.record = check.record
+    const records = splitList(check.expectedRecords)
+    if (records.length > 0) healthcheck.expectedRecords = records
+  }
+
+  const endpoints = values.endpoints.map(
+    (endpoint): ServiceEndpoint => ({
+      ...endpoint,
+      kind: endpoint.kind === "web" ? undefined : endpoint.kind,
+      visibility: endpoint.visibility === "always" ? undefined : endpoint.visibility,
+    }),
+  )
+
+  const tags = values.tags
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+
+  return {
+    ...service,
+    name: values.name,
+    id: values.id.trim() || undefined,
+    url: values.url,
+    description: values.description,
+    alt_url: values.alt_url || undefined,
+    endpoints: endpoints.length > 0 ? endpoints : undefined,
+    icon: values.icon || undefined,
+    category: values.category.trim() || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    healthcheck: Object.keys(healthcheck).length > 0 ? healthcheck : undefined,
+  }
+}
+
+interface ServiceFormProps {
+  service: Service
+  onChange: (service: Service) => void
+}
+
+export function ServiceForm({ service, onChange }: ServiceFormProps) {
+  const form = useForm<ServiceFormValues>({
+    resolver: zodResolver(serviceFormSchema),
+    mode: "onChange",
+    defaultValues: serviceToForm(service),
+  })
+  const endpoints = useFieldArray({ control: form.control, name: "endpoints" })
+  const checkType = form.watch("healthcheck.type")
+
+  useEffect(() => {
+    const subscription = form.watch((values) => {
+      const parsed = serviceFormSchema.safeParse(values)
+      if (parsed.success) {
+        onChange(formToService(service, parsed.data))
+      }
+    })
+    return () => subscription.unsubscribe()
+  }, [form, service, onChange])
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={(e) => e.preventDefault()}>
+        <div className="grid grid-cols-[1fr_6rem] gap-3">
+          <TextField control={form.control} name="name" label="Name" />
+          <TextField control={form.control} name="icon" label="Icon" placeholder="jellyfin" />
+        </div>
+        <TextField control={form.control} name="description" label="Description" />
+        <TextField
+          control={form.control}
+          name="id"
+          label="ID"
+          placeholder="jellyfin"
+          description="Keeps favorites and history attached when the name changes"
+        />
+        <TextField control={form.control} name="url" label="URL" placeholder=":8096 or http://192.168.0.100:8096" />
+        <TextField control={form.control} name="alt_url" label="Alternative URL" placeholder="https://media.example.com" />
+
+        <div className="space-y-3">
+          {endpoints.fields.map((endpoint, index) => (
+            <div key={endpoint.id} className="space-y-3 rounded-lg border border-emerald-200 dark:border-stone-700 p-3">
+              <div className="grid grid-cols-[1fr_5.5rem_5.5rem_auto] items-end gap-2">
+                <TextField control={form.control} name={`endpoints.${index}.label`} label="Label" placeholder="API" />
+                <SelectField
+                  control={form.control}
+                  name={`endpoints.${index}.kind`}
+                  label="Kind"
+                  options={endpointSchema.shape.kind.unwrap().options}
+                />
+                <SelectField
+                  control={form.control}
+                  name={`endpoints.${index}.visibility`}
+                  label="Shown"
+                  options={endpointSchema.shape.visibility.unwrap().options}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => endpoints.remove(index)}
+                  className="hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove endpoint</span>
+                </Button>
+              </div>
+              <TextField control={form.control} name={`endpoints.${index}.url`} label="URL" placeholder=":8096/api" />
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="w-full gap-2"
+            onClick={() => endpoints.append({ label: "", url: "", kind: "web", visibility: "always" })}
+          >
+            <Plus className="h-4 w-4" />
+            Add endpoint
+          </Button>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <TextField control={form.control} name="category" label="Category" placeholder="Media" />
+          <TextField control={form.control} name="tags" label="Tags" placeholder="monitoring, docker" />
+        </div>
+
+        <div className="space-y-4 rounded-lg border border-emerald-200 dark:border-stone-700 p-3">
+          <FormField
+            control={form.control}
+            name="healthcheck.enabled"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between gap-2 space-y-0">
+                <FormLabel>Health check</FormLabel>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+          {form.watch("healthcheck.enabled") && (
+            <>
+              <SelectField
+                control={form.control}
+                name="healthcheck.type"
+                label="Check"
+                options={CHECK_TYPES}
+                labels={CHECK_TYPE_LABELS}
+                description={
+                  checkType === "http" ? undefined : "Needs server mode; the browser only checks that the URL answers"
+                }
+              />
+              {checkType === "http" && (
+                <>
+                  <div className="grid grid-cols-[1fr_6rem] gap-3">
+                    <TextField control={form.control} name="healthcheck.path" label="Path" placeholder="/health" />
+                    <SelectField
+                      control={form.control}
+                      name="healthcheck.method"
+                      label="Method"
+                      options={["GET", "HEAD"]}
+                    />
+                  </div>
+                  <TextField
+                    control={form.control}
+                    name="healthcheck.expectedStatus"
+                    label="Expected status"
+                    placeholder="200, 3xx, 400-403"
+                    description="Leave empty to accept any status below 400"
+                  />
+                  <TextField
+                    control={form.control}
+                    name="healthcheck.keyword"
+                    label="Keyword"
+                    placeholder="Ready"
+                    description="Text the response must contain (GET only)"
+                  />
+                  <FormField
+                    control={form.control}
+                    name="healthcheck.followRedirects"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-2 space-y-0">
+                        <FormLabel>Follow redirects</FormLabel>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+              {(checkType === "tcp" || checkType === "tls") && (
+                <TextField
+                  control={form.control}
+                  name="healthcheck.port"
+                  label="Port"
+                  placeholder={checkType === "tls" ? "443" : "51413"}
+                  description="Leave empty to use the port of the URL"
+                />
+              )}
+              {checkType === "dns" && (
+                <div className="grid grid-cols-[6rem_1fr] gap-3">
+                  <SelectField control={form.control} name="healthcheck.record" label="Record" options={DNS_RECORDS} />
+                  <TextField
+                    control={form.control}
+                    name="healthcheck.expectedRecords"
+                    label="Expected records"
+                    placeholder="192.168.0.10"
+                  />
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <TextField control={form.control} name="healthcheck.interval" label="Interval (s)" placeholder="60" />
+                <TextField control={form.control} name="healthcheck.timeout" label="Timeout (s)" placeholder="5" />
+              </div>
+            </>
+          )}
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { lazy, Suspense, type ComponentType } from "react"
+import type { LucideProps } from "lucide-react"
+import dynamicIconImports from "lucide-react/dynamicIconImports"
+
+import { parseIcon, type LucideIconName } from "@/lib/icons"
+import { cn } from "@/lib/utils"
+
+// Lucide icons are loaded on first use so the bundle doesn't carry all of them
+const lazyIcons = new Map<LucideIconName, ComponentType<LucideProps>>()
+
+const getLucideIcon = (name: LucideIconName) => {
+  let icon = lazyIcons.get(name)
+  if (!icon) {
+    icon = lazy(dynamicIconImports[name])
+    lazyIcons.set(name, icon)
+  }
+  return icon
+}
+
+function LucideIcon({ name, className }: { name: LucideIconName; className?: string }) {
+  const Icon = getLucideIcon(name)
+  return (
+    <Suspense fallback={<span className={cn("inline-block", className)} />}>
+      <Icon className={className} />
+    </Suspense>
+  )
+}
+
+interface ConfigIconProps {
+  // An icon value from the config: lucide name, bundled app slug, image URL or emoji
+  icon?: string
+  // Lucide icon shown when the value is missing or unknown
+  fallback?: LucideIconName
+  // Sizes images and glyphs, e.g. "h-4 w-4"
+  className?: string
+  // Font size for emoji, e.g. "text-2xl"
+  emojiClassName?: string
+}
+
+export function ConfigIcon({ icon, fallback = "globe", className, emojiClassName }: ConfigIconProps) {
+  const source = icon ? parseIcon(icon) : { kind: "unknown" as const, name: "" }
+
+  switch (source.kind) {
+    case "image":
+      return <img src={source.src} alt="" className={cn("object-contain", className)} />
+    case "emoji":
+      return <span className={cn("leading-none", emojiClassName)}>{source.text}</span>
+    case "app":
+      return (
+        <span
+          className={cn("inline-flex items-center justify-center rounded-md p-[15%]", className)}
+          style={{ backgroundColor: source.app.color }}
+          title={source.app.title}
+        >
+          <img src={source.src} alt="" className="h-full w-full object-contain" />
+        </span>
+      )
+    case "lucide":
+      return <LucideIcon name={source.name} className={className} />
+    default:
+      return <LucideIcon name={fallback} className={className} />
+  }
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { useState } from "react"
+import { AlertTriangle, ChevronDown, ChevronUp } from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import type { ConfigIssue } from "@/lib/config-schema"
+import { cn } from "@/lib/utils"
+
+export function ConfigIssueList({ issues, className }: { issues: ConfigIssue[]; className?: string }) {
+  return (
+    <ul className={cn("space-y-1 text-left text-xs font-mono max-h-64 overflow-auto", className)}>
+      {issues.map((issue, index) => (
+        <li key={index} className="break-all">
+          <span className="font-semibold">{issue.path}</span>: {issue.message}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+// Shown above the dashboard when some entries were skipped because they failed validation
+export function ConfigIssuesBanner({ issues }: { issues: ConfigIssue[] }) {
+  const [expanded, setExpanded] = useState(false)
+
+  if (issues.length === 0) return null
+
+  return (
+    <Alert className="mb-6 border-amber-300 bg-amber-50/90 dark:border-amber-700 dark:bg-stone-800/80">
+      <AlertTriangle className="h-4 w-4 !text-amber-600" />
+      <AlertTitle className="flex items-center justify-between gap-2">
+        <span>
+          {issues.length} {issues.length === 1 ? "problem" : "problems"} in configuration — broken entries are hidden
+        </span>
+        <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)} className="h-6 px-2">
+          {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </Button>
+      </AlertTitle>
+      {expanded && (
+        <AlertDescription>
+          <ConfigIssueList issues={issues} className="mt-2" />
+        </AlertDescription>
+      )}
+    </Alert>
+  )
+}
@@ -0,0 +1,92 @@
+"use client"
+
+import { ChevronLeft, ChevronRight, Star, StarOff } from "lucide-react"
+
+import { ConfigIcon } from "@/components/config-icon"
+import { Button } from "@/components/ui/button"
+import { findServiceById } from "@/lib/services"
+import type { Config, Service } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface FavoritesStripProps {
+  config: Config
+  favorites: string[]
+  onOpenService: (service: Service) => void
+  onMove: (from: number, to: number) => void
+  onRemove: (id: string) => void
+  className?: string
+}
+
+// Starred services from every server, in the user's order. Ids are resolved against the
+// current config, so a favorite follows its service when it moves to another tab. Ids that
+// resolve to nothing are kept but skipped, and moves go past them to the next visible favorite.
+export function FavoritesStrip({ config, favorites, onOpenService, onMove, onRemove, className }: FavoritesStripProps) {
+  const resolved = favorites.flatMap((id, index) => {
+    const ref = findServiceById(config, id)
+    return ref ? [{ id, index, ...ref }] : []
+  })
+
+  if (resolved.length === 0) return null
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-2 text-sm font-semibold text-emerald-800 dark:text-amber-500">
+        <Star className="h-4 w-4 fill-current" />
+        Favorites
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {resolved.map(({ id, index, service, tab }, position) => {
+          const previous = resolved[position - 1]?.index
+          const next = resolved[position + 1]?.index
+          return (
+            <div
+              key={id}
+              className="group flex items-center rounded-lg border border-emerald-200 dark:border-stone-700 bg-white/80 dark:bg-stone-800/60 shadow-sm"
+            >
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-6 md:opacity-0 md:group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                disabled={previous === undefined}
+                onClick={() => previous !== undefined && onMove(index, previous)}
+              >
+                <ChevronLeft className="h-3 w-3" />
+                <span className="sr-only">Move left</span>
+              </Button>
+              <button
+                onClick={() => onOpenService(service)}
+                className="flex items-center gap-2 py-2 text-left"
+                title={service.url}
+              >
+                <ConfigIcon icon={service.icon} className="h-5 w-5 flex-shrink-0" emojiClassName="text-lg" />
+                <span>
+                  <span className="block text-sm font-medium leading-tight">{service.name}</span>
+                  <span className="block text-xs text-muted-foreground leading-tight">{tab.name}</span>
+                </span>
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-6 md:opacity-0 md:group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                disabled={next === undefined}
+                onClick={() => next !== undefined && onMove(index, next)}
+              >
+                <ChevronRight className="h-3 w-3" />
+                <span className="sr-only">Move right</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-7 md:opacity-0 md:group-hover:opacity-100 focus:opacity-100 transition-opacity hover:text-red-600"
+                onClick={() => onRemove(id)}
+              >
+                <StarOff className="h-3 w-3" />
+                <span className="sr-only">Remove from favorites</span>
+              </Button>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
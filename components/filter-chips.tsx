@@ -0,0 +1,55 @@
+"use client"
+
+import { Tag, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+
+interface FilterChipsProps {
+  options: string[]
+  active: string[]
+  onChange: (active: string[]) => void
+  className?: string
+}
+
+// Toggleable tag/category chips; a service is shown when it matches any active chip
+export function FilterChips({ options, active, onChange, className }: FilterChipsProps) {
+  if (options.length === 0) return null
+
+  const isActive = (option: string) => active.some((filter) => filter.toLowerCase() === option.toLowerCase())
+
+  const toggle = (option: string) => {
+    onChange(
+      isActive(option)
+        ? active.filter((filter) => filter.toLowerCase() !== option.toLowerCase())
+        : [...active, option],
+    )
+  }
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      <Tag className="h-4 w-4 text-muted-foreground" />
+      {options.map((option) => (
+        <button
+          key={option}
+          onClick={() => toggle(option)}
+          aria-pressed={isActive(option)}
+          className={cn(
+            "rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+            isActive(option)
+              ? "bg-emerald-600 border-emerald-600 text-white dark:bg-amber-700 dark:border-amber-700"
+              : "bg-white/70 border-emerald-200 text-emerald-800 hover:bg-emerald-50 dark:bg-stone-800/60 dark:border-stone-700 dark:text-stone-300 dark:hover:bg-stone-700",
+          )}
+        >
+          {option}
+        </button>
+      ))}
+      {active.length > 0 && (
+        <Button variant="ghost" size="sm" onClick={() => onChange([])} className="h-7 gap-1 px-2 text-xs">
+          <X className="h-3 w-3" />
+          Clear
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+"use client"
+
+import { format } from "date-fns"
+
+import { Badge } from "@/components/ui/badge"
+import type { HealthResult, HealthStatus, TabHealth, TabHealthStatus } from "@/lib/health"
+import { cn } from "@/lib/utils"
+
+const statusStyles: Record<HealthStatus | "pending", { label: string; dot: string; badge: string }> = {
+  up: {
+    label: "Up",
+    dot: "bg-green-500",
+    badge: "border-green-300 text-green-700 dark:border-green-700 dark:text-green-400",
+  },
+  degraded: {
+    label: "Degraded",
+    dot: "bg-amber-500",
+    badge: "border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-400",
+  },
+  down: {
+    label: "Down",
+    dot: "bg-red-500",
+    badge: "border-red-300 text-red-700 dark:border-red-700 dark:text-red-400",
+  },
+  pending: {
+    label: "Checking",
+    dot: "bg-stone-400 animate-pulse",
+    badge: "border-stone-300 text-muted-foreground dark:border-stone-600",
+  },
+}
+
+interface HealthBadgeProps {
+  result?: HealthResult
+  label?: string
+  className?: string
+}
+
+export function HealthBadge({ result, label, className }: HealthBadgeProps) {
+  const style = statusStyles[result?.status ?? "pending"]
+  const details = [
+    result?.latency !== undefined ? `${result.latency} ms` : null,
+    result ? format(result.checkedAt, "HH:mm:ss") : null,
+  ].filter(Boolean)
+
+  return (
+    <div className={cn("flex items-center gap-2 text-xs", className)} title={result?.error}>
+      <Badge variant="outline" className={cn("gap-1.5 font-medium", style.badge)}>
+        <span className={cn("h-2 w-2 rounded-full", style.dot)} />
+        {label ? `${label}: ${style.label}` : style.label}
+      </Badge>
+      {details.length > 0 && <span className="text-muted-foreground tabular-nums">{details.join(" · ")}</span>}
+    </div>
+  )
+}
+
+// Why a check failed, spelled out under the badge; nothing while the check passes
+export function HealthReason({ result, label, className }: HealthBadgeProps) {
+  if (!result?.error || result.status === "up") return null
+
+  return (
+    <p
+      className={cn(
+        "text-xs line-clamp-2",
+        result.status === "down" ? "text-red-700 dark:text-red-400" : "text-amber-700 dark:text-amber-400",
+        className,
+      )}
+    >
+      {label ? `${label}: ${result.error}` : result.error}
+    </p>
+  )
+}
+
+// Just the coloured dot, for dense layouts; the label and latency show on hover
+export function HealthDot({ result, className }: { result?: HealthResult; className?: string }) {
+  const style = statusStyles[result?.status ?? "pending"]
+  const label = [style.label, result?.latency !== undefined ? `${result.latency} ms` : null, result?.error]
+    .filter(Boolean)
+    .join(" · ")
+
+  return (
+    <span
+      role="img"
+      aria-label={label}
+      title={label}
+      className={cn("inline-block h-2.5 w-2.5 flex-shrink-0 rounded-full", style.dot, className)}
+    />
+  )
+}
+
+const tabStatusStyles: Record<TabHealthStatus, { label: string; dot: string }> = {
+  up: { label: "All services up", dot: "bg-green-500" },
+  partial: { label: "Some services down", dot: "bg-amber-500" },
+  unreachable: { label: "Server unreachable", dot: "bg-red-500" },
+  pending: { label: "Checking status", dot: "bg-stone-400 animate-pulse" },
+}
+
+export const getTabHealthLabel = (health: TabHealth) => {
+  const label = tabStatusStyles[health.status].label
+  if (health.failing === 0) return label
+  return `${label} (${health.failing} of ${health.total} failing)`
+}
+
+export function TabHealthDot({ health, className }: { health: TabHealth; className?: string }) {
+  const label = getTabHealthLabel(health)
+
+  return (
+    <span
+      role="img"
+      aria-label={label}
+      title={label}
+      className={cn("inline-block h-2.5 w-2.5 flex-shrink-0 rounded-full", tabStatusStyles[health.status].dot, className)}
+    />
+  )
+}
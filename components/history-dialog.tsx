@@ -0,0 +1,170 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  chartHistory,
+  HISTORY_RANGES,
+  summarizeHistory,
+  type HistoryChart,
+  type HistoryRange,
+  type HistorySource,
+} from "@/lib/history"
+import { cn } from "@/lib/utils"
+
+export interface HistoryTarget {
+  title: string
+  // The URLs whose history is shown, e.g. a service's url and alt_url
+  urls: { label: string; url: string }[]
+}
+
+const chartConfig: ChartConfig = {
+  averageLatency: { label: "Response time (ms)", theme: { light: "#059669", dark: "#d97706" } },
+  uptime: { label: "Uptime (%)", theme: { light: "#22c55e", dark: "#16a34a" } },
+}
+
+const formatUptime = (uptime: number | null) => (uptime === null ? "—" : `${uptime.toFixed(uptime === 100 ? 0 : 1)}%`)
+
+interface HistoryDialogProps {
+  target: HistoryTarget | null
+  source: HistorySource
+  onClose: () => void
+}
+
+// Response times and uptime of one or more URLs over the last day, week or month, from the stored checks
+export function HistoryDialog({ target, source, onClose }: HistoryDialogProps) {
+  const [range, setRange] = useState<HistoryRange>("24h")
+  const [selected, setSelected] = useState(0)
+  const [history, setHistory] = useState<Record<string, HistoryChart> | null>(null)
+
+  useEffect(() => {
+    setSelected(0)
+  }, [target])
+
+  useEffect(() => {
+    if (!target) return
+
+    let cancelled = false
+    setHistory(null)
+    Promise.all(target.urls.map(({ url }) => source.readChart(url, range).catch(() => chartHistory([], range)))).then(
+      (charts) => {
+        if (!cancelled) setHistory(Object.fromEntries(target.urls.map(({ url }, index) => [url, charts[index]])))
+      },
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [target, range, source])
+
+  const selectedUrl = target?.urls[selected]?.url
+  const points = useMemo(
+    () =>
+      ((selectedUrl && history?.[selectedUrl]?.points) || chartHistory([], range).points).map((point) => ({
+        ...point,
+        uptime: point.uptime === null ? null : Math.round(point.uptime * 10) / 10,
+      })),
+    [history, selectedUrl, range],
+  )
+
+  const formatTick = (time: number) => format(time, range === "24h" ? "HH:mm" : "d MMM")
+  const tooltip = (
+    <ChartTooltip
+      content={
+        <ChartTooltipContent
+          labelFormatter={(_, payload) => {
+            const time = payload[0]?.payload?.time
+            return typeof time === "number" ? format(time, "d MMM HH:mm") : ""
+          }}
+        />
+      }
+    />
+  )
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{target?.title}</DialogTitle>
+          <DialogDescription>Response times and uptime from the checks made by {source.label}</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={range} onValueChange={(value) => setRange(value as HistoryRange)}>
+          <TabsList>
+            {(Object.keys(HISTORY_RANGES) as HistoryRange[]).map((key) => (
+              <TabsTrigger key={key} value={key}>
+                {HISTORY_RANGES[key].label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {/* Uptime per URL; picking one charts it below */}
+        <div className="grid gap-2 sm:grid-cols-2">
+          {target?.urls.map(({ label, url }, index) => {
+            const summary = history?.[url]?.summary ?? summarizeHistory([])
+            return (
+              <button
+                key={url}
+                type="button"
+                onClick={() => setSelected(index)}
+                aria-pressed={index === selected}
+                className={cn(
+                  "rounded-lg border p-3 text-left transition-colors hover:bg-muted/50",
+                  index === selected && "border-emerald-500 dark:border-amber-500",
+                )}
+              >
+                <div className="text-xs text-muted-foreground">{label}</div>
+                <div className="text-2xl font-semibold tabular-nums">
+                  {history ? formatUptime(summary.uptime) : "…"}
+                </div>
+                <div className="text-xs text-muted-foreground tabular-nums">
+                  {summary.checks} checks
+                  {summary.averageLatency !== null && ` · ${summary.averageLatency} ms average`}
+                </div>
+                <div className="mt-1 truncate font-mono text-xs text-muted-foreground">{url}</div>
+              </button>
+            )
+          })}
+        </div>
+
+        {history && points.every((point) => point.checks === 0) ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No checks recorded in the last {HISTORY_RANGES[range].label}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <ChartContainer config={chartConfig} className="aspect-auto h-44 w-full">
+              <AreaChart data={points} margin={{ left: 0, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="time" tickFormatter={formatTick} tickLine={false} axisLine={false} minTickGap={40} />
+                <YAxis width={40} tickLine={false} axisLine={false} />
+                {tooltip}
+                <Area
+                  dataKey="averageLatency"
+                  type="monotone"
+                  stroke="var(--color-averageLatency)"
+                  fill="var(--color-averageLatency)"
+                  fillOpacity={0.2}
+                  isAnimationActive={false}
+                />
+              </AreaChart>
+            </ChartContainer>
+            <ChartContainer config={chartConfig} className="aspect-auto h-28 w-full">
+              <BarChart data={points} margin={{ left: 0, right: 8 }}>
+                <XAxis dataKey="time" tickFormatter={formatTick} tickLine={false} axisLine={false} minTickGap={40} />
+                <YAxis width={40} domain={[0, 100]} ticks={[0, 50, 100]} tickLine={false} axisLine={false} />
+                {tooltip}
+                <Bar dataKey="uptime" fill="var(--color-uptime)" radius={2} isAnimationActive={false} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
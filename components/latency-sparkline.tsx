@@ -0,0 +1,62 @@
+"use client"
+
+import { Line, LineChart, YAxis } from "recharts"
+
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart"
+import { summarizeHistory, type HistoryEntry } from "@/lib/history"
+import { cn } from "@/lib/utils"
+
+const chartConfig: ChartConfig = {
+  latency: { label: "Response time", theme: { light: "#059669", dark: "#d97706" } },
+}
+
+interface LatencySparklineProps {
+  entries?: HistoryEntry[]
+  onClick: () => void
+  className?: string
+}
+
+// Response times of the latest checks; failed checks leave a gap. Clicking it opens the full history.
+export function LatencySparkline({ entries = [], onClick, className }: LatencySparklineProps) {
+  const summary = summarizeHistory(entries)
+  const data = entries.map((entry) => ({
+    time: entry.checkedAt,
+    latency: entry.status === "down" ? null : (entry.latency ?? null),
+  }))
+  const label =
+    summary.uptime === null
+      ? "No checks recorded yet"
+      : `Last ${summary.checks} checks: ${Math.round(summary.uptime)}% up`
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={`${label}. Show history`}
+      className={cn(
+        "flex w-full items-center gap-2 rounded px-1 text-xs text-muted-foreground hover:bg-muted/50 transition-colors",
+        className,
+      )}
+    >
+      {data.length > 1 ? (
+        <ChartContainer config={chartConfig} className="aspect-auto h-8 min-w-0 flex-1">
+          <LineChart data={data} margin={{ top: 4, right: 0, bottom: 4, left: 0 }}>
+            <YAxis hide domain={[0, "dataMax"]} />
+            <Line
+              dataKey="latency"
+              type="monotone"
+              stroke="var(--color-latency)"
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ChartContainer>
+      ) : (
+        <span className="h-8 flex-1 text-left leading-8">No history yet</span>
+      )}
+      <span className="tabular-nums">{summary.averageLatency !== null ? `${summary.averageLatency} ms` : "—"}</span>
+      <span className="sr-only">{label}. Show history</span>
+    </button>
+  )
+}
@@ -0,0 +1,60 @@
+"use client"
+
+import { Globe, House, Loader2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { NetworkMode, NetworkProfile } from "@/lib/network"
+import { cn } from "@/lib/utils"
+
+const PROFILE_LABELS: Record<NetworkProfile, string> = {
+  home: "Home network",
+  remote: "Remote",
+}
+
+interface NetworkIndicatorProps {
+  mode: NetworkMode
+  detected: NetworkProfile | null
+  profile: NetworkProfile | null
+  onModeChange: (mode: NetworkMode) => void
+  className?: string
+}
+
+// Shows which network profile decides between url and alt_url, and lets the user pin one
+export function NetworkIndicator({ mode, detected, profile, onModeChange, className }: NetworkIndicatorProps) {
+  const Icon = profile === "home" ? House : profile === "remote" ? Globe : Loader2
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className={cn("h-9 gap-2", className)}>
+          <Icon className={cn("h-4 w-4", !profile && "animate-spin")} />
+          <span>{profile ? PROFILE_LABELS[profile] : "Detecting..."}</span>
+          {mode !== "auto" && <span className="text-xs text-muted-foreground">(manual)</span>}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Network profile</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={mode} onValueChange={(value) => onModeChange(value as NetworkMode)}>
+          <DropdownMenuRadioItem value="auto">
+            Automatic
+            <span className="ml-2 text-xs text-muted-foreground">
+              {detected ? PROFILE_LABELS[detected] : "detecting"}
+            </span>
+          </DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="home">{PROFILE_LABELS.home}</DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="remote">{PROFILE_LABELS.remote}</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { Bell, BellOff, BellRing } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import type { NotificationPermissionState } from "@/hooks/use-state-notifications"
+import { cn } from "@/lib/utils"
+
+interface NotificationsToggleProps {
+  enabled: boolean
+  permission: NotificationPermissionState
+  onChange: (enabled: boolean) => void
+  // Show the state next to the icon, for the mobile sidebar
+  showLabel?: boolean
+  className?: string
+}
+
+const describe = (enabled: boolean, permission: NotificationPermissionState) => {
+  if (!enabled) return "Notify me when a service goes down or comes back"
+  if (permission === "granted") return "Notifications on"
+  return "Notifications on, inside the dashboard only (browser notifications are not allowed)"
+}
+
+// Turns state-change notifications on or off for this device; enabling asks for browser permission
+export function NotificationsToggle({ enabled, permission, onChange, showLabel, className }: NotificationsToggleProps) {
+  const Icon = !enabled ? BellOff : permission === "granted" ? BellRing : Bell
+  const description = describe(enabled, permission)
+
+  return (
+    <Button
+      variant="outline"
+      size={showLabel ? "default" : "icon"}
+      onClick={() => onChange(!enabled)}
+      aria-pressed={enabled}
+      title={description}
+      className={cn(showLabel && "gap-2", className)}
+    >
+      <Icon className={cn("h-4 w-4", enabled && "text-emerald-600 dark:text-amber-500")} />
+      {showLabel ? <span>{enabled ? "Notifications on" : "Notifications off"}</span> : null}
+      <span className="sr-only">{description}</span>
+    </Button>
+  )
+}
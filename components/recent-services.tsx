@@ -0,0 +1,70 @@
+"use client"
+
+import { formatDistanceToNow } from "date-fns"
+import { History, Trash2 } from "lucide-react"
+
+import { ConfigIcon } from "@/components/config-icon"
+import { Button } from "@/components/ui/button"
+import { findServiceById } from "@/lib/services"
+import type { Config, Service } from "@/lib/types"
+import type { UsageStats } from "@/lib/usage"
+import { cn } from "@/lib/utils"
+
+interface RecentServicesProps {
+  config: Config
+  serviceIds: string[]
+  stats: Map<string, UsageStats>
+  onOpenService: (service: Service) => void
+  onClear: () => void
+  className?: string
+}
+
+// Recently opened or copied services, newest first, with a control to forget them
+export function RecentServices({ config, serviceIds, stats, onOpenService, onClear, className }: RecentServicesProps) {
+  const resolved = serviceIds.flatMap((id) => {
+    const ref = findServiceById(config, id)
+    return ref ? [{ id, ...ref }] : []
+  })
+
+  if (resolved.length === 0) return null
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-2 text-sm font-semibold text-emerald-800 dark:text-amber-500">
+        <History className="h-4 w-4" />
+        Recent
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClear}
+          className="ml-auto h-7 gap-1 px-2 text-xs font-normal text-muted-foreground hover:text-red-600"
+        >
+          <Trash2 className="h-3 w-3" />
+          Clear history
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {resolved.map(({ id, service, tab }) => {
+          const lastUsed = stats.get(id)?.lastUsed
+          return (
+            <button
+              key={id}
+              onClick={() => onOpenService(service)}
+              className="flex items-center gap-2 rounded-lg border border-emerald-200 dark:border-stone-700 bg-white/80 dark:bg-stone-800/60 px-3 py-2 text-left shadow-sm hover:bg-emerald-50 dark:hover:bg-stone-700/60"
+              title={service.url}
+            >
+              <ConfigIcon icon={service.icon} className="h-5 w-5 flex-shrink-0" emojiClassName="text-lg" />
+              <span>
+                <span className="block text-sm font-medium leading-tight">{service.name}</span>
+                <span className="block text-xs text-muted-foreground leading-tight">
+                  {tab.name}
+                  {lastUsed && ` · ${formatDistanceToNow(lastUsed, { addSuffix: true })}`}
+                </span>
+              </span>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
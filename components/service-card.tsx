@@ -0,0 +1,220 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { Bell, BellOff, BookOpen, Cable, Check, Copy, ExternalLink, Globe, ShieldCheck, Star, Terminal } from "lucide-react"
+
+import { CertificateBadge } from "@/components/certificate-badge"
+import { ConfigIcon } from "@/components/config-icon"
+import { HealthBadge, HealthReason } from "@/components/health-badge"
+import { LatencySparkline } from "@/components/latency-sparkline"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import type { CertificateInfo } from "@/lib/certificates"
+import type { HealthResult } from "@/lib/health"
+import type { HistoryEntry } from "@/lib/history"
+import { getPreferredUrl, type NetworkProfile } from "@/lib/network"
+import { getVisibleEndpoints } from "@/lib/services"
+import type { EndpointKind, Service } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+const KIND_ICONS: Record<EndpointKind, typeof Globe> = {
+  web: Globe,
+  api: Terminal,
+  admin: ShieldCheck,
+  docs: BookOpen,
+  tunnel: Cable,
+}
+
+interface ServiceCardProps {
+  service: Service
+  // Shown as a badge where services from several servers are listed together
+  serverName?: string
+  // "comfortable" gives larger touch targets on mobile
+  size?: "comfortable" | "compact"
+  highlight?: (text: string) => ReactNode
+  health: Record<string, HealthResult>
+  // Latest checks of the service's url, for the sparkline
+  history?: HistoryEntry[]
+  onShowHistory?: () => void
+  // Certificates of the url or alt_url that expire soon or already have
+  certificateWarnings?: CertificateInfo[]
+  networkProfile: NetworkProfile | null
+  favorite: boolean
+  onToggleFavorite: () => void
+  // Shown while state-change notifications are on
+  muted?: boolean
+  onToggleMute?: () => void
+  onOpenUrl: (url: string) => void
+  onCopyUrl: (url: string, label: string) => void
+  copiedUrl: string | null
+}
+
+export function ServiceCard({
+  service,
+  serverName,
+  size = "compact",
+  highlight = (text) => text,
+  health,
+  history,
+  onShowHistory,
+  certificateWarnings,
+  networkProfile,
+  favorite,
+  onToggleFavorite,
+  muted = false,
+  onToggleMute,
+  onOpenUrl,
+  onCopyUrl,
+  copiedUrl,
+}: ServiceCardProps) {
+  const comfortable = size === "comfortable"
+
+  // The primary button targets the URL that works from the current network; the second one opens the other
+  const primaryUrl = getPreferredUrl(service, networkProfile)
+  const secondaryUrl = primaryUrl === service.url ? service.alt_url : service.url
+  const secondaryLabel = primaryUrl === service.url ? "Alternative URL" : "Local URL"
+
+  return (
+    <Card className="group hover:shadow-lg transition-all duration-200 border-0 shadow-md bg-white/90 dark:bg-stone-800/60 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-3">
+          <ConfigIcon
+            icon={service.icon}
+            className="h-7 w-7 flex-shrink-0 text-emerald-600 dark:text-amber-600"
+            emojiClassName="text-2xl flex-shrink-0"
+          />
+          <div className="min-w-0 flex-1">
+            <CardTitle className="text-lg group-hover:text-emerald-600 dark:group-hover:text-amber-500 transition-colors">
+              {highlight(service.name)}
+            </CardTitle>
+            <CardDescription className="text-sm mt-1 line-clamp-2">{highlight(service.description)}</CardDescription>
+            {serverName && (
+              <Badge variant="secondary" className="mt-2 text-xs">
+                {serverName}
+              </Badge>
+            )}
+            {service.healthcheck?.enabled !== false && (
+              <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1">
+                <HealthBadge result={health[service.url]} />
+                {service.alt_url && <HealthBadge result={health[service.alt_url]} label="Alt" />}
+                <HealthReason result={health[service.url]} className="w-full" />
+                {service.alt_url && <HealthReason result={health[service.alt_url]} label="Alt" className="w-full" />}
+              </div>
+            )}
+            {certificateWarnings && certificateWarnings.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1">
+                {certificateWarnings.map((certificate) => (
+                  <CertificateBadge
+                    key={certificate.url}
+                    certificate={certificate}
+                    label={certificate.url === service.alt_url ? "Alt" : undefined}
+                  />
+                ))}
+              </div>
+            )}
+            {service.healthcheck?.enabled !== false && onShowHistory && (
+              <LatencySparkline entries={history} onClick={onShowHistory} className="mt-1 -ml-1" />
+            )}
+          </div>
+          {onToggleMute && service.healthcheck?.enabled !== false && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onToggleMute}
+              aria-pressed={muted}
+              title={muted ? "Notifications muted" : "Mute notifications"}
+              className="h-8 w-8 flex-shrink-0 self-start"
+            >
+              {muted ? (
+                <BellOff className="h-4 w-4 text-muted-foreground" />
+              ) : (
+                <Bell className="h-4 w-4 text-muted-foreground" />
+              )}
+              <span className="sr-only">{muted ? "Unmute notifications" : "Mute notifications"}</span>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onToggleFavorite}
+            aria-pressed={favorite}
+            className="h-8 w-8 flex-shrink-0 self-start"
+          >
+            <Star className={cn("h-4 w-4", favorite ? "fill-amber-400 text-amber-500" : "text-muted-foreground")} />
+            <span className="sr-only">{favorite ? "Remove from favorites" : "Add to favorites"}</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        <div className="space-y-3">
+          <Button
+            onClick={() => onOpenUrl(primaryUrl)}
+            className={cn(
+              "w-full bg-emerald-600 hover:bg-emerald-700 dark:bg-amber-700 dark:hover:bg-amber-600",
+              comfortable ? "h-12 text-base" : "h-10 text-sm",
+            )}
+            variant="default"
+          >
+            <span className="mr-2">Open Service</span>
+            <ExternalLink className="h-4 w-4" />
+          </Button>
+
+          {secondaryUrl && (
+            <Button
+              onClick={() => onOpenUrl(secondaryUrl)}
+              className={cn(
+                "w-full border-emerald-200 hover:bg-emerald-50 dark:border-amber-600 dark:hover:bg-stone-700",
+                comfortable ? "h-12 text-base" : "h-10 text-sm",
+              )}
+              variant="outline"
+            >
+              <span className="mr-2">{secondaryLabel}</span>
+              <ExternalLink className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {/* Every endpoint can be copied by tapping it or opened with its own button */}
+        <div className="space-y-2">
+          {getVisibleEndpoints(service, networkProfile).map((endpoint, index) => {
+            const KindIcon = KIND_ICONS[endpoint.kind]
+            return (
+              <div key={index} className="flex items-center gap-1">
+                <div
+                  className={cn(
+                    "min-w-0 flex-1 text-xs text-muted-foreground bg-muted/50 rounded font-mono cursor-pointer hover:bg-muted/70 transition-colors active:bg-muted/80",
+                    comfortable ? "p-3" : "p-2",
+                  )}
+                  onClick={() => onCopyUrl(endpoint.url, `${service.name} (${endpoint.label})`)}
+                  title={`Copy ${endpoint.label} URL (${endpoint.kind})`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <KindIcon className="h-3 w-3 flex-shrink-0" />
+                    <div className="truncate flex-1 text-xs">
+                      <span className="font-sans font-medium">{endpoint.label}:</span> {highlight(endpoint.url)}
+                    </div>
+                    {copiedUrl === endpoint.url ? (
+                      <Check className="h-4 w-4 text-green-500 flex-shrink-0" />
+                    ) : (
+                      <Copy className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onOpenUrl(endpoint.url)}
+                  className={cn("flex-shrink-0", comfortable ? "h-10 w-10" : "h-8 w-8")}
+                >
+                  <ExternalLink className="h-3 w-3" />
+                  <span className="sr-only">Open {endpoint.label}</span>
+                </Button>
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { Check, Copy, ExternalLink, Star } from "lucide-react"
+
+import { ConfigIcon } from "@/components/config-icon"
+import { HealthDot } from "@/components/health-badge"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { HealthResult } from "@/lib/health"
+import { getPreferredUrl, type NetworkProfile } from "@/lib/network"
+import type { Service } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+interface ServiceRowProps {
+  service: Service
+  serverName?: string
+  highlight?: (text: string) => ReactNode
+  health: Record<string, HealthResult>
+  networkProfile: NetworkProfile | null
+  favorite: boolean
+  onToggleFavorite: () => void
+  onOpenUrl: (url: string) => void
+  onCopyUrl: (url: string, label: string) => void
+  copiedUrl: string | null
+}
+
+// One line per service for the compact list layout: the name opens the preferred URL, the buttons copy it
+// or open the other address
+export function ServiceRow({
+  service,
+  serverName,
+  highlight = (text) => text,
+  health,
+  networkProfile,
+  favorite,
+  onToggleFavorite,
+  onOpenUrl,
+  onCopyUrl,
+  copiedUrl,
+}: ServiceRowProps) {
+  const primaryUrl = getPreferredUrl(service, networkProfile)
+  const secondaryUrl = primaryUrl === service.url ? service.alt_url : service.url
+  const secondaryLabel = primaryUrl === service.url ? "Alt" : "Local"
+
+  return (
+    <div className="group flex items-center gap-3 px-3 py-2 hover:bg-muted/50 transition-colors">
+      <ConfigIcon
+        icon={service.icon}
+        className="h-5 w-5 flex-shrink-0 text-emerald-600 dark:text-amber-600"
+        emojiClassName="text-lg flex-shrink-0"
+      />
+      {service.healthcheck?.enabled !== false && <HealthDot result={health[service.url]} />}
+      <button
+        type="button"
+        onClick={() => onOpenUrl(primaryUrl)}
+        className="min-w-0 flex-1 text-left"
+        title={`Open ${primaryUrl}`}
+      >
+        <div className="flex items-baseline gap-2">
+          <span className="font-medium truncate group-hover:text-emerald-600 dark:group-hover:text-amber-500 transition-colors">
+            {highlight(service.name)}
+          </span>
+          <span className="hidden sm:inline text-xs text-muted-foreground truncate">
+            {highlight(service.description)}
+          </span>
+        </div>
+      </button>
+      {serverName && (
+        <Badge variant="secondary" className="hidden sm:inline-flex text-xs flex-shrink-0">
+          {serverName}
+        </Badge>
+      )}
+      <div className="flex items-center flex-shrink-0">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onCopyUrl(primaryUrl, service.name)}
+          className="h-8 w-8"
+          title={`Copy ${primaryUrl}`}
+        >
+          {copiedUrl === primaryUrl ? (
+            <Check className="h-4 w-4 text-green-500" />
+          ) : (
+            <Copy className="h-4 w-4 text-muted-foreground" />
+          )}
+          <span className="sr-only">Copy URL</span>
+        </Button>
+        {secondaryUrl && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onOpenUrl(secondaryUrl)}
+            className="h-8 px-2 text-xs text-muted-foreground"
+            title={secondaryUrl}
+          >
+            {secondaryLabel}
+            <ExternalLink className="h-3 w-3" />
+          </Button>
+        )}
+        <Button variant="ghost" size="icon" onClick={onToggleFavorite} aria-pressed={favorite} className="h-8 w-8">
+          <Star className={cn("h-4 w-4", favorite ? "fill-amber-400 text-amber-500" : "text-muted-foreground")} />
+          <span className="sr-only">{favorite ? "Remove from favorites" : "Add to favorites"}</span>
+        </Button>
+      </div>
+    </div>
+  )
+}
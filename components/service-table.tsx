@@ -0,0 +1,198 @@
+"use client"
+
+import { useMemo, useState, type ReactNode } from "react"
+import { ArrowDown, ArrowUp, ArrowUpDown, Check, Copy, ExternalLink } from "lucide-react"
+
+import { ConfigIcon } from "@/components/config-icon"
+import { HealthBadge } from "@/components/health-badge"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { getServiceStatus, type HealthResult, type ServiceStatus } from "@/lib/health"
+import { getPreferredUrl, type NetworkProfile } from "@/lib/network"
+import { getServiceId } from "@/lib/services"
+import type { Service } from "@/lib/types"
+
+export interface ServiceTableItem {
+  service: Service
+  serverName: string
+  serverKey: string
+}
+
+type SortKey = "name" | "server" | "url" | "alt_url" | "status" | "tags"
+
+interface SortState {
+  key: SortKey
+  direction: "asc" | "desc"
+}
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "server", label: "Server" },
+  { key: "url", label: "URL" },
+  { key: "alt_url", label: "Alt URL" },
+  { key: "status", label: "Status" },
+  { key: "tags", label: "Tags" },
+]
+
+// Ascending status puts the services that need attention first; unchecked ones go last
+const STATUS_RANK: Record<ServiceStatus, number> = { down: 0, degraded: 1, up: 2, pending: 3, disabled: 4 }
+
+const sortValue = (item: ServiceTableItem, key: SortKey, health: Record<string, HealthResult>) => {
+  switch (key) {
+    case "name":
+      return item.service.name
+    case "server":
+      return item.serverName
+    case "url":
+      return item.service.url
+    case "alt_url":
+      return item.service.alt_url ?? ""
+    case "status":
+      return STATUS_RANK[getServiceStatus(item.service, health)]
+    case "tags":
+      return (item.service.tags ?? []).join(", ")
+  }
+}
+
+const compareValues = (a: string | number, b: string | number) =>
+  typeof a === "number" && typeof b === "number"
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: "base" })
+
+interface ServiceTableProps {
+  items: ServiceTableItem[]
+  highlight?: (text: string) => ReactNode
+  health: Record<string, HealthResult>
+  networkProfile: NetworkProfile | null
+  onOpenUrl: (url: string) => void
+  onCopyUrl: (url: string, label: string) => void
+  copiedUrl: string | null
+}
+
+// Every service on one row each; clicking a column header sorts by it, a second click reverses and a
+// third goes back to the order the items were given in
+export function ServiceTable({
+  items,
+  highlight = (text) => text,
+  health,
+  networkProfile,
+  onOpenUrl,
+  onCopyUrl,
+  copiedUrl,
+}: ServiceTableProps) {
+  const [sort, setSort] = useState<SortState | null>(null)
+
+  const rows = useMemo(() => {
+    if (!sort) return items
+    return [...items].sort((a, b) => {
+      const aValue = sortValue(a, sort.key, health)
+      const bValue = sortValue(b, sort.key, health)
+      // Empty cells stay at the bottom in both directions
+      if (aValue === "" || bValue === "") return aValue === bValue ? 0 : aValue === "" ? 1 : -1
+      const result = compareValues(aValue, bValue)
+      return sort.direction === "asc" ? result : -result
+    })
+  }, [items, sort, health])
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) => {
+      if (current?.key !== key) return { key, direction: "asc" }
+      return current.direction === "asc" ? { key, direction: "desc" } : null
+    })
+  }
+
+  const renderUrl = (url: string | undefined, label: string) =>
+    url ? (
+      <div className="flex items-center gap-1">
+        <button
+          type="button"
+          onClick={() => onCopyUrl(url, label)}
+          className="min-w-0 max-w-[16rem] truncate font-mono text-xs text-muted-foreground hover:text-foreground"
+          title={`Copy ${url}`}
+        >
+          {highlight(url)}
+        </button>
+        {copiedUrl === url ? (
+          <Check className="h-3 w-3 flex-shrink-0 text-green-500" />
+        ) : (
+          <Copy className="h-3 w-3 flex-shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100" />
+        )}
+        <Button variant="ghost" size="icon" onClick={() => onOpenUrl(url)} className="h-6 w-6 flex-shrink-0">
+          <ExternalLink className="h-3 w-3" />
+          <span className="sr-only">Open {label}</span>
+        </Button>
+      </div>
+    ) : (
+      <span className="text-muted-foreground">—</span>
+    )
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {COLUMNS.map((column) => {
+            const SortIcon = sort?.key !== column.key ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown
+            return (
+              <TableHead
+                key={column.key}
+                aria-sort={
+                  sort?.key !== column.key ? "none" : sort.direction === "asc" ? "ascending" : "descending"
+                }
+              >
+                <button
+                  type="button"
+                  onClick={() => toggleSort(column.key)}
+                  className="inline-flex items-center gap-1 hover:text-foreground"
+                >
+                  {column.label}
+                  <SortIcon className={sort?.key === column.key ? "h-3 w-3" : "h-3 w-3 opacity-40"} />
+                </button>
+              </TableHead>
+            )
+          })}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(({ service, serverName, serverKey }) => (
+          <TableRow key={`${serverKey}/${getServiceId(service)}`} className="group">
+            <TableCell>
+              <button
+                type="button"
+                onClick={() => onOpenUrl(getPreferredUrl(service, networkProfile))}
+                className="flex items-center gap-2 text-left font-medium hover:text-emerald-600 dark:hover:text-amber-500"
+                title={service.description}
+              >
+                <ConfigIcon
+                  icon={service.icon}
+                  className="h-4 w-4 flex-shrink-0 text-emerald-600 dark:text-amber-600"
+                  emojiClassName="text-base"
+                />
+                {highlight(service.name)}
+              </button>
+            </TableCell>
+            <TableCell className="whitespace-nowrap">{serverName}</TableCell>
+            <TableCell>{renderUrl(service.url, `${service.name} URL`)}</TableCell>
+            <TableCell>{renderUrl(service.alt_url, `${service.name} Alternative URL`)}</TableCell>
+            <TableCell>
+              {service.healthcheck?.enabled === false ? (
+                <span className="text-xs text-muted-foreground">Not checked</span>
+              ) : (
+                <HealthBadge result={health[service.url]} className="whitespace-nowrap" />
+              )}
+            </TableCell>
+            <TableCell>
+              <div className="flex flex-wrap gap-1">
+                {(service.tags ?? []).map((tag) => (
+                  <Badge key={tag} variant="secondary" className="text-xs font-normal">
+                    {highlight(tag)}
+                  </Badge>
+                ))}
+              </div>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
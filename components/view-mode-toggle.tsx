@@ -0,0 +1,39 @@
+"use client"
+
+import { LayoutGrid, List, Table2 } from "lucide-react"
+
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import type { ViewMode } from "@/hooks/use-view-mode"
+import { cn } from "@/lib/utils"
+
+const MODES: { value: ViewMode; label: string; icon: typeof LayoutGrid }[] = [
+  { value: "grid", label: "Grid", icon: LayoutGrid },
+  { value: "list", label: "Compact list", icon: List },
+  { value: "table", label: "Table", icon: Table2 },
+]
+
+interface ViewModeToggleProps {
+  value: ViewMode
+  onChange: (mode: ViewMode) => void
+  className?: string
+}
+
+export function ViewModeToggle({ value, onChange, className }: ViewModeToggleProps) {
+  return (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      value={value}
+      // Radix reports "" when the active item is clicked again; keep the current mode then
+      onValueChange={(next) => next && onChange(next as ViewMode)}
+      aria-label="Layout"
+      className={cn("gap-0.5 rounded-md border bg-background/60 p-0.5", className)}
+    >
+      {MODES.map(({ value: mode, label, icon: Icon }) => (
+        <ToggleGroupItem key={mode} value={mode} aria-label={label} title={label} className="h-7 w-7 p-0">
+          <Icon className="h-4 w-4" />
+        </ToggleGroupItem>
+      ))}
+    </ToggleGroup>
+  )
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import * as React from "react"
+
+import type { HealthSource } from "@/hooks/use-service-health"
+import type { CertificateInfo } from "@/lib/certificates"
+import { fetchServerCertificates } from "@/lib/status-api"
+
+// Certificates change rarely and the server reads them hourly
+const POLL_INTERVAL = 10 * 60 * 1000
+
+// TLS certificates of the probed https URLs, keyed by URL. Only the server can read them, so this stays
+// empty unless the health results come from the server.
+export function useCertificates(source: HealthSource | null) {
+  const [certificates, setCertificates] = React.useState<Record<string, CertificateInfo>>({})
+
+  React.useEffect(() => {
+    if (source !== "server") {
+      setCertificates({})
+      return
+    }
+
+    let cancelled = false
+    const load = async () => {
+      const loaded = await fetchServerCertificates()
+      if (!cancelled && loaded) setCertificates(loaded)
+    }
+
+    load()
+    const timer = setInterval(load, POLL_INTERVAL)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [source])
+
+  return certificates
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import * as React from "react"
+
+const STORAGE_KEY = "server-dashboard-favorites"
+
+const readFavorites = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    return Array.isArray(stored) ? stored.filter((id) => typeof id === "string") : []
+  } catch {
+    return []
+  }
+}
+
+// Ordered list of favorite service ids, persisted in localStorage
+export function useFavorites() {
+  const [favorites, setFavorites] = React.useState<string[]>([])
+
+  React.useEffect(() => {
+    setFavorites(readFavorites())
+
+    // Keep several open dashboards in sync
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setFavorites(readFavorites())
+    }
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  }, [])
+
+  const update = React.useCallback((next: string[]) => {
+    setFavorites(next)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  }, [])
+
+  const isFavorite = React.useCallback((id: string) => favorites.includes(id), [favorites])
+
+  const toggleFavorite = React.useCallback(
+    (id: string) => {
+      update(favorites.includes(id) ? favorites.filter((favorite) => favorite !== id) : [...favorites, id])
+    },
+    [favorites, update],
+  )
+
+  const moveFavorite = React.useCallback(
+    (from: number, to: number) => {
+      if (to < 0 || to >= favorites.length) return
+      const next = [...favorites]
+      const [id] = next.splice(from, 1)
+      next.splice(to, 0, id)
+      update(next)
+    },
+    [favorites, update],
+  )
+
+  return { favorites, isFavorite, toggleFavorite, moveFavorite }
+}
@@ -0,0 +1,32 @@
+"use client"
+
+import * as React from "react"
+
+import type { HealthResult } from "@/lib/health"
+import { detectNetworkProfile, type NetworkMode } from "@/lib/network"
+import type { Config } from "@/lib/types"
+
+const STORAGE_KEY = "server-dashboard-network-mode"
+
+// Detected network profile from the health probes, with a per-device manual override
+export function useNetworkProfile(config: Config | null, health: Record<string, HealthResult>) {
+  const [mode, setModeState] = React.useState<NetworkMode>("auto")
+
+  React.useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored === "home" || stored === "remote") setModeState(stored)
+  }, [])
+
+  const detected = React.useMemo(() => (config ? detectNetworkProfile(config, health) : null), [config, health])
+
+  const setMode = React.useCallback((next: NetworkMode) => {
+    setModeState(next)
+    if (next === "auto") {
+      localStorage.removeItem(STORAGE_KEY)
+    } else {
+      localStorage.setItem(STORAGE_KEY, next)
+    }
+  }, [])
+
+  return { mode, detected, profile: mode === "auto" ? detected : mode, setMode }
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import * as React from "react"
+
+import { EMPTY_ORDER, moveTo, type OrderOverlay } from "@/lib/order"
+
+const STORAGE_KEY = "server-dashboard-order"
+
+const readOverlay = (): OrderOverlay => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null")
+    if (stored && Array.isArray(stored.tabs) && stored.services && typeof stored.services === "object") {
+      return stored
+    }
+  } catch {
+    // fall through to the config order
+  }
+  return EMPTY_ORDER
+}
+
+// Tab and service order chosen by drag and drop, persisted in localStorage on top of the config order
+export function useOrderOverlay() {
+  const [overlay, setOverlay] = React.useState<OrderOverlay>(EMPTY_ORDER)
+
+  React.useEffect(() => {
+    setOverlay(readOverlay())
+
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setOverlay(readOverlay())
+    }
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  }, [])
+
+  const update = React.useCallback((next: OrderOverlay) => {
+    setOverlay(next)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  }, [])
+
+  // Both moves take the order currently shown, so items added to the config later are included
+  const moveTab = React.useCallback(
+    (shownKeys: string[], key: string, targetKey: string) => {
+      update({ ...overlay, tabs: moveTo(shownKeys, key, targetKey) })
+    },
+    [overlay, update],
+  )
+
+  const moveService = React.useCallback(
+    (tabKey: string, shownIds: string[], id: string, targetId: string) => {
+      update({ ...overlay, services: { ...overlay.services, [tabKey]: moveTo(shownIds, id, targetId) } })
+    },
+    [overlay, update],
+  )
+
+  const resetOrder = React.useCallback(() => {
+    setOverlay(EMPTY_ORDER)
+    localStorage.removeItem(STORAGE_KEY)
+  }, [])
+
+  return { overlay, moveTab, moveService, resetOrder }
+}
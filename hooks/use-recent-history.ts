@@ -0,0 +1,59 @@
+"use client"
+
+import * as React from "react"
+
+import type { HealthResult } from "@/lib/health"
+import type { HistoryEntry, HistorySource } from "@/lib/history"
+
+// Checks shown in a card's sparkline
+const SAMPLES = 30
+
+const merge = (current: HistoryEntry[], added: HistoryEntry[]) => {
+  const byTime = new Map<number, HistoryEntry>()
+  current.concat(added).forEach((entry) => byTime.set(entry.checkedAt, entry))
+  return Array.from(byTime.values())
+    .sort((a, b) => a.checkedAt - b.checkedAt)
+    .slice(-SAMPLES)
+}
+
+// The latest checks per URL: read from the stored history once per URL, then extended by live results.
+// Switching the source (e.g. to the server's history once it is detected) starts over.
+export function useRecentHistory(health: Record<string, HealthResult>, source: HistorySource) {
+  const [history, setHistory] = React.useState<Record<string, HistoryEntry[]>>({})
+  const requested = React.useRef(new Set<string>())
+
+  React.useEffect(() => {
+    requested.current = new Set()
+    setHistory({})
+  }, [source])
+
+  React.useEffect(() => {
+    const current = requested.current
+    Object.keys(health).forEach((url) => {
+      if (current.has(url)) return
+      current.add(url)
+      source
+        .readRecentHistory(url, SAMPLES)
+        .then((stored) => {
+          // Drop reads from a previous source
+          if (requested.current !== current) return
+          setHistory((prev) => ({ ...prev, [url]: merge(prev[url] ?? [], stored) }))
+        })
+        .catch(() => {})
+    })
+
+    setHistory((prev) => {
+      let changed = false
+      const next = { ...prev }
+      Object.entries(health).forEach(([url, { checkedAt, status, latency }]) => {
+        const entries = prev[url] ?? []
+        if (entries[entries.length - 1]?.checkedAt === checkedAt) return
+        next[url] = merge(entries, [{ url, checkedAt, status, latency }])
+        changed = true
+      })
+      return changed ? next : prev
+    })
+  }, [health, source])
+
+  return history
+}
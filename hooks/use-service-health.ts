@@ -0,0 +1,95 @@
+"use client"
+
+import * as React from "react"
+
+import { collectHealthTargets, probeTarget, type HealthResult } from "@/lib/health"
+import { browserHistory, pruneHistory, recordHealth, type HistorySource } from "@/lib/history"
+import { getNetworkProbeUrls } from "@/lib/network"
+import { fetchServerStatus, serverHistory } from "@/lib/status-api"
+import type { Config } from "@/lib/types"
+
+// Who probes: this browser, or the server's probe scheduler in server mode
+export type HealthSource = "browser" | "server"
+
+// Server-side results are fetched this often
+const STATUS_POLL_INTERVAL = 15 * 1000
+
+// Health of every server and service URL in the config, keyed by URL. When the server probes, its results are
+// used and the browser only probes what it doesn't cover yet plus the network probe URLs, which have to be
+// reached from this device to tell home from remote. Browser results are also kept in the browser's history;
+// history is best effort, so storage errors are ignored.
+export function useServiceHealth(config: Config | null) {
+  const [browserResults, setBrowserResults] = React.useState<Record<string, HealthResult>>({})
+  const [serverResults, setServerResults] = React.useState<Record<string, HealthResult> | null>(null)
+  const [source, setSource] = React.useState<HealthSource | null>(null)
+
+  React.useEffect(() => {
+    pruneHistory().catch(() => {})
+  }, [])
+
+  // Ask the server first; when it doesn't probe (or stops answering) the browser probes everything
+  React.useEffect(() => {
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+      const results = await fetchServerStatus()
+      if (cancelled) return
+      setServerResults(results)
+      setSource(results ? "server" : "browser")
+      if (results) timer = setTimeout(poll, STATUS_POLL_INTERVAL)
+    }
+
+    poll()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [])
+
+  const networkUrls = React.useMemo(() => (config ? getNetworkProbeUrls(config) : []), [config])
+  // The set of URLs the server has results for changes rarely; a string key keeps the probe effect stable
+  const serverUrls = React.useMemo(() => Object.keys(serverResults ?? {}).sort().join("\n"), [serverResults])
+
+  React.useEffect(() => {
+    if (!config || !source) return
+
+    let cancelled = false
+    const timers: ReturnType<typeof setInterval>[] = []
+    const covered = new Set(serverUrls.split("\n"))
+
+    collectHealthTargets(config)
+      .filter((target) => networkUrls.includes(target.url) || !covered.has(target.url))
+      .forEach((target) => {
+        const run = async () => {
+          const result = await probeTarget(target)
+          if (!cancelled) {
+            setBrowserResults((prev) => ({ ...prev, [target.url]: result }))
+            recordHealth(target.url, result).catch(() => {})
+          }
+        }
+
+        run()
+        timers.push(setInterval(run, target.interval * 1000))
+      })
+
+    return () => {
+      cancelled = true
+      timers.forEach(clearInterval)
+    }
+  }, [config, source, serverUrls, networkUrls])
+
+  const results = React.useMemo(() => {
+    if (!serverResults) return browserResults
+
+    const merged = { ...browserResults, ...serverResults }
+    networkUrls.forEach((url) => {
+      if (browserResults[url]) merged[url] = browserResults[url]
+    })
+    return merged
+  }, [browserResults, serverResults, networkUrls])
+
+  const history: HistorySource = source === "server" ? serverHistory : browserHistory
+
+  return { results, source, history }
+}
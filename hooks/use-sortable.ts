@@ -0,0 +1,60 @@
+"use client"
+
+import * as React from "react"
+
+export interface SortableNeighbours {
+  previous?: string
+  next?: string
+}
+
+// Drag-and-drop reordering for a list of items identified by string ids. Alt+Arrow keys move the
+// focused item past its neighbour, so every drag has a keyboard equivalent.
+export function useSortable(onMove: (id: string, targetId: string) => void) {
+  const [dragging, setDragging] = React.useState<string | null>(null)
+  const [over, setOver] = React.useState<string | null>(null)
+
+  const reset = () => {
+    setDragging(null)
+    setOver(null)
+  }
+
+  const itemProps = (id: string, neighbours: SortableNeighbours, disabled = false) => {
+    if (disabled) return {}
+
+    return {
+      draggable: true,
+      "aria-keyshortcuts": "Alt+ArrowLeft Alt+ArrowRight",
+      onDragStart: (event: React.DragEvent) => {
+        event.dataTransfer.effectAllowed = "move"
+        event.dataTransfer.setData("text/plain", id)
+        setDragging(id)
+      },
+      onDragOver: (event: React.DragEvent) => {
+        if (!dragging || dragging === id) return
+        event.preventDefault()
+        setOver(id)
+      },
+      onDragLeave: () => setOver((current) => (current === id ? null : current)),
+      onDrop: (event: React.DragEvent) => {
+        event.preventDefault()
+        if (dragging && dragging !== id) onMove(dragging, id)
+        reset()
+      },
+      onDragEnd: reset,
+      onKeyDown: (event: React.KeyboardEvent) => {
+        if (!event.altKey) return
+        const target =
+          event.key === "ArrowLeft" || event.key === "ArrowUp"
+            ? neighbours.previous
+            : event.key === "ArrowRight" || event.key === "ArrowDown"
+              ? neighbours.next
+              : undefined
+        if (!target) return
+        event.preventDefault()
+        onMove(id, target)
+      },
+    }
+  }
+
+  return { dragging, over, itemProps }
+}
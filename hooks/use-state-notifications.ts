@@ -0,0 +1,116 @@
+"use client"
+
+import * as React from "react"
+
+import { toast } from "@/hooks/use-toast"
+import type { HealthResult } from "@/lib/health"
+import { getNotificationSettings, trackTransition, type TransitionEvent, type TransitionState } from "@/lib/notifications"
+import { getServiceId } from "@/lib/services"
+import type { Config, Service, Tab } from "@/lib/types"
+
+const ENABLED_KEY = "server-dashboard-notifications"
+const MUTED_KEY = "server-dashboard-muted"
+
+export type NotificationPermissionState = NotificationPermission | "unsupported"
+
+const readMuted = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(MUTED_KEY) ?? "[]")
+    return Array.isArray(stored) ? stored.filter((id) => typeof id === "string") : []
+  } catch {
+    return []
+  }
+}
+
+const describe = (event: TransitionEvent, service: Service, tab: Tab) => {
+  switch (event.kind) {
+    case "change":
+      return event.to === "down"
+        ? {
+            title: `${service.name} is down`,
+            description: event.error ? `${tab.name} · ${event.error}` : tab.name,
+            destructive: true,
+          }
+        : { title: `${service.name} is back up`, description: tab.name, destructive: false }
+    case "flapping":
+      return {
+        title: `${service.name} keeps going up and down`,
+        description: "Notifications for it are paused until it settles",
+        destructive: true,
+      }
+    case "settled":
+      return { title: `${service.name} has settled`, description: `It is ${event.state} now`, destructive: false }
+  }
+}
+
+// Report services going down and coming back, as toasts and, while the dashboard is in a background tab,
+// as browser notifications. Off until enabled on this device; services can be muted one by one.
+export function useStateNotifications(config: Config | null, health: Record<string, HealthResult>) {
+  const [enabled, setEnabledState] = React.useState(false)
+  const [permission, setPermission] = React.useState<NotificationPermissionState>("default")
+  const [muted, setMuted] = React.useState<string[]>([])
+  const states = React.useRef(new Map<string, TransitionState>())
+
+  React.useEffect(() => {
+    setEnabledState(localStorage.getItem(ENABLED_KEY) === "on")
+    setPermission("Notification" in window ? Notification.permission : "unsupported")
+    setMuted(readMuted())
+
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === MUTED_KEY) setMuted(readMuted())
+    }
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  }, [])
+
+  const settings = React.useMemo(() => getNotificationSettings(config?.notifications), [config])
+
+  // States are tracked even while disabled, so turning notifications on doesn't report old changes
+  React.useEffect(() => {
+    if (!config) return
+
+    config.tabs.forEach((tab) => {
+      tab.services.forEach((service) => {
+        const result = health[service.url]
+        if (!result || service.healthcheck?.enabled === false) return
+
+        const key = `${tab.key}/${getServiceId(service)}`
+        const { state, event } = trackTransition(states.current.get(key), result, settings)
+        states.current.set(key, state)
+        if (!event || !enabled || muted.includes(getServiceId(service))) return
+
+        const { title, description, destructive } = describe(event, service, tab)
+        toast({ title, description, variant: destructive ? "destructive" : "default" })
+
+        if (permission === "granted" && document.visibilityState === "hidden") {
+          try {
+            new Notification(title, { body: description, tag: key })
+          } catch {
+            // Some mobile browsers only allow notifications from a service worker; the toast still shows
+          }
+        }
+      })
+    })
+  }, [config, health, settings, enabled, muted, permission])
+
+  const setEnabled = React.useCallback(async (next: boolean) => {
+    setEnabledState(next)
+    localStorage.setItem(ENABLED_KEY, next ? "on" : "off")
+    if (next && "Notification" in window && Notification.permission === "default") {
+      setPermission(await Notification.requestPermission())
+    }
+  }, [])
+
+  const isMuted = React.useCallback((id: string) => muted.includes(id), [muted])
+
+  const toggleMute = React.useCallback(
+    (id: string) => {
+      const next = muted.includes(id) ? muted.filter((mutedId) => mutedId !== id) : [...muted, id]
+      setMuted(next)
+      localStorage.setItem(MUTED_KEY, JSON.stringify(next))
+    },
+    [muted],
+  )
+
+  return { enabled, permission, setEnabled, isMuted, toggleMute }
+}
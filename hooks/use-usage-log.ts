@@ -0,0 +1,41 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  appendUsage,
+  clearUsage,
+  isUsageStorageKey,
+  readUsage,
+  summarizeUsage,
+  type UsageAction,
+  type UsageEntry,
+} from "@/lib/usage"
+
+// Local log of opened and copied services, persisted in localStorage
+export function useUsageLog() {
+  const [entries, setEntries] = React.useState<UsageEntry[]>([])
+
+  React.useEffect(() => {
+    setEntries(readUsage())
+
+    const onStorage = (event: StorageEvent) => {
+      if (isUsageStorageKey(event.key)) setEntries(readUsage())
+    }
+    window.addEventListener("storage", onStorage)
+    return () => window.removeEventListener("storage", onStorage)
+  }, [])
+
+  const stats = React.useMemo(() => summarizeUsage(entries), [entries])
+
+  const recordUsage = React.useCallback((serviceId: string, url: string, action: UsageAction) => {
+    setEntries(appendUsage({ serviceId, url, action, at: Date.now() }))
+  }, [])
+
+  const clearHistory = React.useCallback(() => {
+    clearUsage()
+    setEntries([])
+  }, [])
+
+  return { entries, stats, recordUsage, clearHistory }
+}
@@ -0,0 +1,27 @@
+"use client"
+
+import * as React from "react"
+
+export type ViewMode = "grid" | "list" | "table"
+
+const STORAGE_KEY = "server-dashboard-view-mode"
+
+const isViewMode = (value: string | null): value is ViewMode =>
+  value === "grid" || value === "list" || value === "table"
+
+// How services are laid out; remembered per device, like the theme
+export function useViewMode() {
+  const [viewMode, setViewModeState] = React.useState<ViewMode>("grid")
+
+  React.useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (isViewMode(stored)) setViewModeState(stored)
+  }, [])
+
+  const setViewMode = React.useCallback((next: ViewMode) => {
+    setViewModeState(next)
+    localStorage.setItem(STORAGE_KEY, next)
+  }, [])
+
+  return { viewMode, setViewMode }
+}
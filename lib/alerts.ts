@@ -0,0 +1,65 @@
+import type { AlertChannelType, AlertsConfig, Service, Tab } from "@/lib/types"
+
+// What the server's alert channels (server/alert-channels.ts) deliver
+export type AlertKind = "down" | "up" | "flapping" | "settled" | "test"
+
+export interface AlertEvent {
+  kind: AlertKind
+  title: string // e.g. "Jellyfin is down"
+  message: string // one or two lines of detail
+  service?: string // absent when the server itself (its mainUrl) went down
+  tab: string
+  url: string
+  status: string // "up", "down", or "test" for test sends
+  error?: string
+  at: number
+}
+
+// Outcome of the latest send to a channel
+export interface AlertDelivery {
+  at: number
+  kind: AlertKind
+  ok: boolean
+  error?: string
+}
+
+export interface AlertChannelStatus {
+  name: string
+  type: AlertChannelType
+  lastDelivery?: AlertDelivery
+}
+
+// Outages and flapping get a higher priority where the channel has one
+export const isUrgent = (kind: AlertKind) => kind === "down" || kind === "flapping"
+
+// Values for {{placeholders}} in webhook bodies
+export const getAlertVariables = (event: AlertEvent): Record<string, string> => ({
+  kind: event.kind,
+  title: event.title,
+  message: event.message,
+  service: event.service ?? "",
+  tab: event.tab,
+  url: event.url,
+  status: event.status,
+  error: event.error ?? "",
+  time: new Date(event.at).toISOString(),
+})
+
+const includesIgnoringCase = (values: string[], value: string) =>
+  values.some((candidate) => candidate.toLowerCase() === value.toLowerCase())
+
+// Names of the channels an alert about a service, or without one about the server itself, goes to. Tags match
+// case-insensitively and include the service's category, like the filter chips; servers have none, so only
+// routes without tags pick their alerts.
+export const routeAlert = (alerts: AlertsConfig, tab: Tab, service?: Service): string[] => {
+  if (!alerts.routes) return alerts.channels.map((channel) => channel.name)
+
+  const labels = [service?.category, ...(service?.tags ?? [])].filter((label): label is string => !!label)
+  const names = new Set<string>()
+  alerts.routes.forEach((route) => {
+    if (route.tabs && !route.tabs.includes(tab.key)) return
+    if (route.tags && !labels.some((label) => includesIgnoringCase(route.tags ?? [], label))) return
+    route.channels.forEach((name) => names.add(name))
+  })
+  return Array.from(names)
+}
@@ -0,0 +1,58 @@
+import type { CertificatesConfig, Config, Service } from "@/lib/types"
+
+// The TLS certificate an https URL (or a TLS check) presented to the server's probe scheduler
+export interface CertificateInfo {
+  url: string
+  host: string
+  port: number
+  subject: string // common name
+  issuer: string // issuing organisation, e.g. "Let's Encrypt"
+  sans: string[] // DNS names and IP addresses the certificate is valid for
+  validFrom: number // epoch milliseconds
+  validTo: number
+  trusted: boolean // the chain verifies against the system's CAs for this host
+  trustError?: string
+  checkedAt: number
+}
+
+export type CertificateState = "valid" | "expiring" | "expired"
+
+export const DEFAULT_WARN_DAYS = 14
+
+const DAY = 24 * 60 * 60 * 1000
+
+export const getWarnDays = (config: CertificatesConfig = {}) => config.warnDays ?? DEFAULT_WARN_DAYS
+
+// Whole days until expiry; negative once expired
+export const getDaysRemaining = (certificate: CertificateInfo, now = Date.now()) =>
+  Math.floor((certificate.validTo - now) / DAY)
+
+export const getCertificateState = (
+  certificate: CertificateInfo,
+  warnDays: number,
+  now = Date.now(),
+): CertificateState => {
+  if (certificate.validTo <= now) return "expired"
+  return certificate.validTo - now <= warnDays * DAY ? "expiring" : "valid"
+}
+
+// Certificates of a service's url and alt_url that expire within warnDays or already have, soonest first
+export const getCertificateWarnings = (
+  service: Service,
+  certificates: Record<string, CertificateInfo>,
+  warnDays: number,
+  now = Date.now(),
+) =>
+  [service.url, service.alt_url]
+    .flatMap((url) => (url && certificates[url] ? [certificates[url]] : []))
+    .filter((certificate) => getCertificateState(certificate, warnDays, now) !== "valid")
+    .sort((a, b) => a.validTo - b.validTo)
+
+// Which servers and services use a URL, for labelling a certificate
+export const getCertificateOwners = (config: Config, url: string) =>
+  config.tabs.flatMap((tab) => [
+    ...(tab.mainUrl === url ? [tab.name] : []),
+    ...tab.services
+      .filter((service) => service.url === url || service.alt_url === url)
+      .map((service) => `${service.name} (${tab.name})`),
+  ])
@@ -0,0 +1,67 @@
+import type { ConfigIssue } from "@/lib/config-schema"
+import type { ExportFormat } from "@/lib/config-export"
+import type { Config } from "@/lib/types"
+
+// Client for the optional server mode (server/index.ts); absent on static hosting
+
+export interface ConfigApiInfo {
+  file: string
+  format: ExportFormat
+  writable: boolean
+  tokenRequired: boolean
+}
+
+export class ConfigApiError extends Error {
+  status: number
+  issues: ConfigIssue[]
+
+  constructor(status: number, message: string, issues: ConfigIssue[] = []) {
+    super(message)
+    this.name = "ConfigApiError"
+    this.status = status
+    this.issues = issues
+  }
+}
+
+const TOKEN_STORAGE_KEY = "server-dashboard-api-token"
+
+export const getApiToken = () => localStorage.getItem(TOKEN_STORAGE_KEY)
+
+export const setApiToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token)
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY)
+  }
+}
+
+// Returns null when the dashboard is served as plain static files
+export const detectConfigApi = async (): Promise<ConfigApiInfo | null> => {
+  try {
+    const response = await fetch("/api/config", { cache: "no-store" })
+    const contentType = response.headers.get("content-type") ?? ""
+    if (!response.ok || !contentType.includes("application/json")) return null
+
+    const { file, format, writable, tokenRequired } = await response.json()
+    return { file, format, writable, tokenRequired }
+  } catch {
+    return null
+  }
+}
+
+export const saveConfigToServer = async (config: Config) => {
+  const token = getApiToken()
+  const response = await fetch("/api/config", {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(config),
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    throw new ConfigApiError(response.status, body.error ?? `Save failed (HTTP ${response.status})`, body.issues)
+  }
+}
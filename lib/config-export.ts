@@ -0,0 +1,49 @@
+import { stringify as stringifyYaml } from "yaml"
+
+import type { Config } from "@/lib/types"
+
+export type ExportFormat = "js" | "json" | "yaml"
+
+export const exportFileNames: Record<ExportFormat, string> = {
+  js: "config.js",
+  json: "config.json",
+  yaml: "config.yaml",
+}
+
+const mimeTypes: Record<ExportFormat, string> = {
+  js: "text/javascript",
+  json: "application/json",
+  yaml: "application/yaml",
+}
+
+export const serializeConfig = (config: Config, format: ExportFormat) => {
+  switch (format) {
+    case "json":
+      return `${JSON.stringify(config, null, 2)}\n`
+    case "yaml":
+      return stringifyYaml(config)
+    case "js":
+      return [
+        "// Server Dashboard Configuration",
+        "// Edit this file and refresh the page - no rebuild needed!",
+        "",
+        `window.dashboardConfig = ${JSON.stringify(config, null, 2)}`,
+        "",
+      ].join("\n")
+  }
+}
+
+// Trigger a browser download of the config in the given format
+export const downloadConfig = (config: Config, format: ExportFormat) => {
+  const blob = new Blob([serializeConfig(config, format)], { type: mimeTypes[format] })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement("a")
+  link.href = url
+  link.download = exportFileNames[format]
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,143 @@
+import { parse as parseYaml } from "yaml"
+
+import { ConfigValidationError, validateConfig, type ConfigIssue } from "@/lib/config-schema"
+import { findIconIssues } from "@/lib/icons"
+import type { Config } from "@/lib/types"
+import { resolveConfigUrls } from "@/lib/url-template"
+
+// Declare global window property set by the legacy config.js
+declare global {
+  interface Window {
+    dashboardConfig?: unknown
+  }
+}
+
+export type ConfigFormat = "json" | "yaml" | "js"
+
+export interface LoadedConfig {
+  config: Config // as written, with URL templates unresolved
+  source: string
+  format: ConfigFormat
+  issues: ConfigIssue[]
+  // False when broken tabs, services or sections were left out; saving this config would delete them
+  complete: boolean
+}
+
+// Probed in order when no explicit config URL is set; config.js is the legacy fallback
+const DEFAULT_SOURCES = ["/config.json", "/config.yaml", "/config.yml", "/config.js"]
+
+export const detectFormat = (url: string): ConfigFormat => {
+  const path = url.split(/[?#]/)[0].toLowerCase()
+  if (path.endsWith(".json")) return "json"
+  if (path.endsWith(".yaml") || path.endsWith(".yml")) return "yaml"
+  return "js"
+}
+
+// ?config= can come from a shared link, so it only picks a JSON or YAML file on this origin. A script or a
+// foreign file would run with access to this origin's storage, including the API token.
+const getQueryConfigUrl = () => {
+  const value = new URLSearchParams(window.location.search).get("config")
+  if (!value) return null
+
+  const isLocalPath =
+    value.startsWith("/") &&
+    !/^\/[/\\]/.test(value) &&
+    new URL(value, window.location.origin).origin === window.location.origin
+  if (!isLocalPath) throw new Error("?config= must be a path on this site, such as /configs/lab.yaml")
+  if (detectFormat(value) === "js") throw new Error("?config= only loads .json, .yaml or .yml files")
+  return value
+}
+
+// An explicit source can be set at build time (any URL or format) or per visit with ?config=/path/to/file
+export const getConfigUrl = () => getQueryConfigUrl() || process.env.NEXT_PUBLIC_CONFIG_URL || null
+
+const withCacheBuster = (url: string) => `${url}${url.includes("?") ? "&" : "?"}t=${Date.now()}`
+
+class ConfigNotFoundError extends Error {}
+
+// Legacy loader: run config.js as a script and read window.dashboardConfig
+const loadScriptConfig = (url: string) => {
+  return new Promise<unknown>((resolve, reject) => {
+    // Remove existing script if it exists
+    const existingScript = document.getElementById("config-script")
+    if (existingScript) {
+      existingScript.remove()
+    }
+    delete window.dashboardConfig
+
+    const script = document.createElement("script")
+    script.id = "config-script"
+    script.src = withCacheBuster(url)
+    script.onload = () => {
+      if (window.dashboardConfig) {
+        resolve(window.dashboardConfig)
+      } else {
+        reject(new Error(`Configuration not found in ${url}`))
+      }
+    }
+    script.onerror = () => reject(new ConfigNotFoundError(`Failed to load ${url}`))
+
+    document.head.appendChild(script)
+  })
+}
+
+const loadDataConfig = async (url: string, format: "json" | "yaml"): Promise<unknown> => {
+  let response: Response
+  try {
+    response = await fetch(withCacheBuster(url), { cache: "no-store" })
+  } catch {
+    throw new ConfigNotFoundError(`Failed to load ${url}`)
+  }
+
+  // Static servers with an SPA fallback answer missing files with index.html
+  const contentType = response.headers.get("content-type") ?? ""
+  if (!response.ok || contentType.includes("text/html")) {
+    throw new ConfigNotFoundError(`Failed to load ${url} (HTTP ${response.status})`)
+  }
+
+  const text = await response.text()
+  try {
+    return format === "json" ? JSON.parse(text) : parseYaml(text)
+  } catch (err) {
+    throw new Error(`Failed to parse ${url}: ${err instanceof Error ? err.message : String(err)}`)
+  }
+}
+
+// Problems only the browser can check: URL templates and icon names. They don't hide anything.
+export const findConfigWarnings = (config: Config): ConfigIssue[] => [
+  ...resolveConfigUrls(config).issues,
+  ...findIconIssues(config),
+]
+
+const loadFrom = async (url: string): Promise<LoadedConfig> => {
+  const format = detectFormat(url)
+  const raw = format === "js" ? await loadScriptConfig(url) : await loadDataConfig(url, format)
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`Configuration in ${url} is empty`)
+  }
+
+  // Broken tabs and services are dropped and reported; only a config with nothing usable fails
+  const { config, issues, complete } = validateConfig(raw)
+  if (!config) {
+    throw new ConfigValidationError(issues)
+  }
+
+  return { config, source: url, format, issues: [...issues, ...findConfigWarnings(config)], complete }
+}
+
+// Load the dashboard config from the configured URL, or the first default source that exists
+export const loadDashboardConfig = async (): Promise<LoadedConfig> => {
+  const configUrl = getConfigUrl()
+  if (configUrl) return loadFrom(configUrl)
+
+  for (const source of DEFAULT_SOURCES) {
+    try {
+      return await loadFrom(source)
+    } catch (err) {
+      // Only fall through to the next source when this one doesn't exist
+      if (!(err instanceof ConfigNotFoundError)) throw err
+    }
+  }
+
+  throw new Error("No configuration file found (tried config.json, config.yaml, config.yml and config.js)")
+}
@@ -0,0 +1,356 @@
+import { z } from "zod"
+
+import { getServiceId } from "@/lib/services"
+import type {
+  AlertsConfig,
+  CertificatesConfig,
+  Config,
+  HealthCheck,
+  NetworkConfig,
+  NotificationsConfig,
+  Service,
+  ServiceEndpoint,
+  Tab,
+} from "@/lib/types"
+
+export interface ConfigIssue {
+  path: string
+  message: string
+}
+
+export class ConfigValidationError extends Error {
+  issues: ConfigIssue[]
+
+  constructor(issues: ConfigIssue[]) {
+    super(`Configuration is invalid (${issues.length} ${issues.length === 1 ? "problem" : "problems"})`)
+    this.name = "ConfigValidationError"
+    this.issues = issues
+  }
+}
+
+// Objects pass unknown keys through, so saving from the editor keeps fields this version doesn't know about
+
+const isAbsoluteUrl = (value: string) => z.string().url().safeParse(value).success
+
+// URLs may contain {{variables}}, which are only known once the dashboard resolves them in the browser
+const isTemplate = (value: string) => value.includes("{{")
+
+export const urlSchema = z
+  .string({ required_error: "required" })
+  .refine((value) => isAbsoluteUrl(value) || isTemplate(value), { message: "invalid URL" })
+
+// Service URLs may also be a port or path (":8096", "/jellyfin") on the tab's mainUrl
+export const serviceUrlSchema = z
+  .string({ required_error: "required" })
+  .refine((value) => isAbsoluteUrl(value) || isTemplate(value) || /^[:/]/.test(value), { message: "invalid URL" })
+
+const textSchema = z.string({ required_error: "required" })
+
+// 200, "200", "2xx" or "200-299"
+export const STATUS_CODE_PATTERN = /^(\d{3}|\dxx|\d{3}-\d{3})$/i
+
+const statusCodeSchema = z.union([
+  z.number().int(),
+  z.string().regex(STATUS_CODE_PATTERN, { message: 'expected a status code, "2xx" or "200-299"' }),
+])
+
+export const healthCheckSchema = z
+  .object({
+    enabled: z.boolean(),
+    type: z.enum(["http", "tcp", "dns", "tls"]),
+    interval: z.number().positive(),
+    timeout: z.number().positive(),
+    path: z.string(),
+    method: z.enum(["GET", "HEAD"]),
+    expectedStatus: z.union([statusCodeSchema, z.array(statusCodeSchema).nonempty()]),
+    headers: z.record(z.string()),
+    followRedirects: z.boolean(),
+    keyword: z.string().min(1, { message: "must not be empty" }),
+    jsonPath: z.string().min(1, { message: "must not be empty" }),
+    jsonValue: z.union([z.string(), z.number(), z.boolean(), z.null()]),
+    host: z.string().min(1, { message: "must not be empty" }),
+    port: z.number().int().min(1).max(65535),
+    record: z.enum(["A", "AAAA", "CNAME", "MX", "NS", "TXT"]),
+    expectedRecords: z.array(z.string()).nonempty(),
+    resolver: z.string().min(1, { message: "must not be empty" }),
+  })
+  .partial()
+  .passthrough() satisfies z.ZodType<HealthCheck>
+
+export const endpointSchema = z
+  .object({
+    label: textSchema.min(1, { message: "must not be empty" }),
+    url: serviceUrlSchema,
+    kind: z.enum(["web", "api", "admin", "docs", "tunnel"]).optional(),
+    visibility: z.enum(["always", "home", "remote", "hidden"]).optional(),
+  })
+  .passthrough() satisfies z.ZodType<ServiceEndpoint>
+
+export const serviceSchema = z
+  .object({
+    id: z.string().min(1, { message: "must not be empty" }).optional(),
+    name: textSchema.min(1, { message: "must not be empty" }),
+    url: serviceUrlSchema,
+    description: textSchema,
+    alt_url: serviceUrlSchema.optional(),
+    endpoints: z.array(endpointSchema).optional(),
+    icon: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    category: z.string().optional(),
+    healthcheck: healthCheckSchema.optional(),
+  })
+  .passthrough() satisfies z.ZodType<Service>
+
+export const tooltipSchema = z
+  .object(
+    {
+      title: textSchema,
+      description: textSchema,
+      location: textSchema,
+      specs: textSchema,
+    },
+    { required_error: "required" },
+  )
+  .passthrough()
+
+// Services are validated one by one so a single broken entry doesn't hide the whole tab
+export const tabSchema = z
+  .object({
+    name: textSchema.min(1, { message: "must not be empty" }),
+    key: textSchema.min(1, { message: "must not be empty" }),
+    id: textSchema,
+    mainUrl: urlSchema,
+    icon: textSchema,
+    tooltip: tooltipSchema,
+    services: z.array(z.unknown(), { required_error: "required" }),
+  })
+  .passthrough()
+
+export const networkSchema = z
+  .object({
+    probe: urlSchema.optional(),
+  })
+  .passthrough() satisfies z.ZodType<NetworkConfig>
+
+export const variablesSchema = z.record(z.string())
+
+export const notificationsSchema = z
+  .object({
+    threshold: z.number().int().min(1),
+    flapWindow: z.number().positive(),
+    flapLimit: z.number().int().min(2),
+  })
+  .partial()
+  .passthrough() satisfies z.ZodType<NotificationsConfig>
+
+export const certificatesSchema = z
+  .object({
+    warnDays: z.number().int().min(0),
+  })
+  .partial()
+  .passthrough() satisfies z.ZodType<CertificatesConfig>
+
+const channelName = { name: textSchema.min(1, { message: "must not be empty" }) }
+const chatChannel = { ...channelName, url: urlSchema }
+
+export const alertChannelSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      ...channelName,
+      type: z.literal("webhook"),
+      url: urlSchema,
+      method: z.enum(["POST", "PUT"]).optional(),
+      headers: z.record(z.string()).optional(),
+      body: z.unknown().optional(),
+    })
+    .passthrough(),
+  z
+    .object({
+      ...channelName,
+      type: z.literal("ntfy"),
+      url: urlSchema,
+      token: z.string().optional(),
+      priority: z.number().int().min(1).max(5).optional(),
+    })
+    .passthrough(),
+  z
+    .object({
+      ...channelName,
+      type: z.literal("gotify"),
+      url: urlSchema,
+      token: textSchema,
+      priority: z.number().int().min(0).max(10).optional(),
+    })
+    .passthrough(),
+  z.object({ ...chatChannel, type: z.literal("discord") }).passthrough(),
+  z.object({ ...chatChannel, type: z.literal("slack") }).passthrough(),
+  z
+    .object({
+      ...channelName,
+      type: z.literal("email"),
+      host: textSchema.min(1, { message: "must not be empty" }),
+      port: z.number().int().min(1).max(65535).optional(),
+      secure: z.boolean().optional(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      allowInsecureAuth: z.boolean().optional(),
+      from: textSchema.min(1, { message: "must not be empty" }),
+      to: z.union([textSchema.min(1, { message: "must not be empty" }), z.array(z.string()).nonempty()]),
+    })
+    .passthrough(),
+])
+
+export const alertsSchema = z
+  .object({
+    channels: z.array(alertChannelSchema, { required_error: "required" }),
+    routes: z
+      .array(
+        z
+          .object({
+            channels: z.array(z.string()).nonempty(),
+            tabs: z.array(z.string()).optional(),
+            tags: z.array(z.string()).optional(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+  })
+  .passthrough()
+  .superRefine(({ channels, routes = [] }, ctx) => {
+    const names = new Set<string>()
+    channels.forEach((channel, index) => {
+      if (names.has(channel.name)) {
+        ctx.addIssue({ code: "custom", path: ["channels", index, "name"], message: "duplicate channel name" })
+      }
+      names.add(channel.name)
+    })
+    routes.forEach((route, index) => {
+      route.channels.forEach((name, channelIndex) => {
+        if (!names.has(name)) {
+          ctx.addIssue({
+            code: "custom",
+            path: ["routes", index, "channels", channelIndex],
+            message: `unknown channel "${name}"`,
+          })
+        }
+      })
+    })
+  }) satisfies z.ZodType<AlertsConfig>
+
+export const configSchema = z
+  .object({
+    tabs: z.array(z.unknown(), { required_error: "required" }),
+    network: z.unknown().optional(),
+    variables: z.unknown().optional(),
+    notifications: z.unknown().optional(),
+    certificates: z.unknown().optional(),
+    alerts: z.unknown().optional(),
+  })
+  .passthrough()
+
+// Render a zod path as tabs[2].services[1].url
+export const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>((out, part) => {
+    if (typeof part === "number") return `${out}[${part}]`
+    return out ? `${out}.${part}` : part
+  }, "")
+
+const toIssues = (error: z.ZodError, prefix: (string | number)[]): ConfigIssue[] =>
+  error.issues.map((issue) => ({
+    path: formatPath([...prefix, ...issue.path]) || "(root)",
+    message: issue.message,
+  }))
+
+export interface ValidatedConfig {
+  config: Config | null
+  issues: ConfigIssue[]
+  complete: boolean // false when broken entries were left out of config
+}
+
+// Validate a raw config, keeping every valid tab and service and reporting the rest by path
+export const validateConfig = (raw: unknown): ValidatedConfig => {
+  const root = configSchema.safeParse(raw)
+  if (!root.success) {
+    return { config: null, issues: toIssues(root.error, []), complete: false }
+  }
+
+  const issues: ConfigIssue[] = []
+  const seenKeys = new Set<string>()
+  const tabs: Tab[] = []
+  // Favorites, history and ordering tell services apart by id, so ids must be unique across all tabs. Services
+  // with a duplicate id are still shown; the issue only asks for an explicit one.
+  const idIssues: ConfigIssue[] = []
+  const seenIds = new Map<string, string>()
+
+  root.data.tabs.forEach((rawTab, tabIndex) => {
+    const tab = tabSchema.safeParse(rawTab)
+    if (!tab.success) {
+      issues.push(...toIssues(tab.error, ["tabs", tabIndex]))
+      return
+    }
+
+    if (seenKeys.has(tab.data.key)) {
+      issues.push({
+        path: formatPath(["tabs", tabIndex, "key"]),
+        message: `duplicate key "${tab.data.key}"`,
+      })
+      return
+    }
+    seenKeys.add(tab.data.key)
+
+    const services: Service[] = []
+    tab.data.services.forEach((rawService, serviceIndex) => {
+      const service = serviceSchema.safeParse(rawService)
+      if (service.success) {
+        services.push(service.data)
+
+        const id = getServiceId(service.data)
+        const path = formatPath(["tabs", tabIndex, "services", serviceIndex])
+        const first = seenIds.get(id)
+        if (first) {
+          idIssues.push({
+            path: `${path}.id`,
+            message: `id "${id}" is also used by ${first}; set a unique id`,
+          })
+        } else {
+          seenIds.set(id, path)
+        }
+      } else {
+        issues.push(...toIssues(service.error, ["tabs", tabIndex, "services", serviceIndex]))
+      }
+    })
+
+    tabs.push({ ...tab.data, services })
+  })
+
+  if (tabs.length === 0) {
+    if (issues.length === 0) {
+      issues.push({ path: "tabs", message: "must contain at least one tab" })
+    }
+    return { config: null, issues, complete: false }
+  }
+
+  // Optional sections are checked on their own; a broken one is dropped so the dashboard still loads
+  const parseSection = <T>(schema: z.ZodType<T>, value: unknown, name: string): T | undefined => {
+    if (value === undefined) return undefined
+    const parsed = schema.safeParse(value)
+    if (parsed.success) return parsed.data
+    issues.push(...toIssues(parsed.error, [name]))
+    return undefined
+  }
+
+  // Without a valid network block, detection falls back to the servers' mainUrl
+  const network = parseSection(networkSchema, root.data.network, "network")
+  const variables = parseSection(variablesSchema, root.data.variables, "variables")
+  const notifications = parseSection(notificationsSchema, root.data.notifications, "notifications")
+  const certificates = parseSection(certificatesSchema, root.data.certificates, "certificates")
+  const alerts = parseSection(alertsSchema, root.data.alerts, "alerts")
+
+  // Unknown top-level keys are kept as well; broken sections are left out
+  const config: Config = { ...root.data, tabs, network, variables, notifications, certificates, alerts }
+  const sections = ["network", "variables", "notifications", "certificates", "alerts"] as const
+  sections.forEach((name) => {
+    if (config[name] === undefined) delete config[name]
+  })
+  return { config, issues: [...issues, ...idIssues], complete: issues.length === 0 }
+}
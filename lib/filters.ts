@@ -0,0 +1,112 @@
+import type { ServiceStatus } from "@/lib/health"
+import type { SearchResult } from "@/lib/search"
+import type { Config, Service } from "@/lib/types"
+
+export interface ServiceGroup {
+  category: string | null
+  services: Service[]
+}
+
+export type ResultGrouping = "server" | "category" | "status" | "name"
+
+export interface ResultGroup {
+  key: string
+  label: string
+  results: SearchResult[]
+}
+
+// Status groups in the order they're listed: the ones that need attention first
+const STATUS_GROUPS: { status: ServiceStatus; label: string }[] = [
+  { status: "down", label: "Down" },
+  { status: "degraded", label: "Degraded" },
+  { status: "up", label: "Up" },
+  { status: "pending", label: "Checking" },
+  { status: "disabled", label: "Not checked" },
+]
+
+// Filter chips match a service's category or any of its tags, case-insensitively
+const labelsOf = (service: Service) =>
+  [service.category, ...(service.tags ?? [])].filter((label): label is string => !!label)
+
+// Every distinct tag and category in the config, in the order they first appear
+export const collectFilterOptions = (config: Config) => {
+  const options = new Map<string, string>()
+  config.tabs.forEach((tab) => {
+    tab.services.forEach((service) => {
+      labelsOf(service).forEach((label) => {
+        if (!options.has(label.toLowerCase())) {
+          options.set(label.toLowerCase(), label)
+        }
+      })
+    })
+  })
+  return Array.from(options.values())
+}
+
+// A service passes when it carries any of the active filters
+export const matchesFilters = (service: Service, filters: string[]) => {
+  if (filters.length === 0) return true
+  const labels = labelsOf(service).map((label) => label.toLowerCase())
+  return filters.some((filter) => labels.includes(filter.toLowerCase()))
+}
+
+// Services from every server that pass the active filters, in config order
+export const filterServices = (config: Config, filters: string[]): SearchResult[] =>
+  config.tabs.flatMap((tab) =>
+    tab.services
+      .filter((service) => matchesFilters(service, filters))
+      .map((service) => ({ service, serverName: tab.name, serverKey: tab.key, score: 0 })),
+  )
+
+// Group services by category, keeping the order categories first appear; uncategorized go last
+export const groupByCategory = (services: Service[]): ServiceGroup[] => {
+  const groups = new Map<string | null, Service[]>()
+  services.forEach((service) => {
+    const category = service.category?.trim() || null
+    groups.set(category, [...(groups.get(category) ?? []), service])
+  })
+
+  const uncategorized = groups.get(null)
+  groups.delete(null)
+  const result = Array.from(groups, ([category, grouped]) => ({ category, services: grouped }))
+  if (uncategorized) result.push({ category: null, services: uncategorized })
+  return result
+}
+
+// Group results for the "All" view. Groups keep the order servers, categories or statuses first appear
+// in, and results keep config order within them; "name" is a single alphabetical list.
+export const groupResults = (
+  results: SearchResult[],
+  grouping: ResultGrouping,
+  getStatus: (service: Service) => ServiceStatus,
+): ResultGroup[] => {
+  if (grouping === "name") {
+    const sorted = [...results].sort((a, b) =>
+      a.service.name.localeCompare(b.service.name, undefined, { numeric: true, sensitivity: "base" }),
+    )
+    return sorted.length > 0 ? [{ key: "name", label: "All services", results: sorted }] : []
+  }
+
+  if (grouping === "status") {
+    return STATUS_GROUPS.map(({ status, label }) => ({
+      key: status,
+      label,
+      results: results.filter((result) => getStatus(result.service) === status),
+    })).filter((group) => group.results.length > 0)
+  }
+
+  const groups = new Map<string, ResultGroup>()
+  results.forEach((result) => {
+    const category = result.service.category?.trim() || null
+    const key = grouping === "server" ? result.serverKey : (category?.toLowerCase() ?? "")
+    const label = grouping === "server" ? result.serverName : (category ?? "Other")
+    const group = groups.get(key) ?? { key, label, results: [] }
+    group.results.push(result)
+    groups.set(key, group)
+  })
+
+  // Uncategorized services go last, as on a server's tab
+  const uncategorized = groups.get("")
+  groups.delete("")
+  return [...Array.from(groups.values()), ...(uncategorized ? [uncategorized] : [])]
+}
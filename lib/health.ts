@@ -0,0 +1,276 @@
+import { readJsonPath } from "@/lib/json-path"
+import type { Config, DnsRecordType, HealthCheck, HealthCheckType, Service, StatusCode, Tab } from "@/lib/types"
+
+export type HealthStatus = "up" | "down" | "degraded"
+
+export type TabHealthStatus = "up" | "partial" | "unreachable" | "pending"
+
+// A service's status as shown in lists: not probed yet, or not checked at all
+export type ServiceStatus = HealthStatus | "pending" | "disabled"
+
+export interface TabHealth {
+  status: TabHealthStatus
+  failing: number
+  total: number
+}
+
+export interface HealthResult {
+  status: HealthStatus
+  checkedAt: number
+  latency?: number
+  statusCode?: number
+  error?: string // why the check failed, or which assertion didn't hold
+}
+
+// Inclusive range of accepted HTTP status codes
+export type StatusRange = [number, number]
+
+export interface HealthTarget {
+  url: string
+  type: HealthCheckType
+  interval: number
+  timeout: number
+  // HTTP
+  probeUrl: string
+  method: "GET" | "HEAD"
+  expectedStatus?: StatusRange[]
+  headers?: Record<string, string>
+  followRedirects: boolean
+  keyword?: string
+  jsonPath?: string
+  jsonValue?: string | number | boolean | null
+  // TCP, TLS and DNS
+  host: string
+  port: number
+  record: DnsRecordType
+  expectedRecords?: string[]
+  resolver?: string
+}
+
+const DEFAULT_INTERVAL = 60
+const DEFAULT_TIMEOUT = 5
+
+// Resolve the URL that is actually probed: an optional healthcheck path is appended to the service's own path,
+// so "/health" on http://host/app/ probes http://host/app/health
+const resolveProbeUrl = (url: string, path?: string) => {
+  if (!path) return url
+  try {
+    const probeUrl = new URL(url)
+    const queryStart = path.includes("?") ? path.indexOf("?") : path.length
+    probeUrl.pathname = `${probeUrl.pathname.replace(/\/+$/, "")}/${path.slice(0, queryStart).replace(/^\/+/, "")}`
+    probeUrl.search = path.slice(queryStart)
+    probeUrl.hash = ""
+    return probeUrl.toString()
+  } catch {
+    return url
+  }
+}
+
+// Host and port of a URL for the connection-level checks; TLS defaults to 443 unless the URL names a port
+const resolveEndpoint = (url: string, type: HealthCheckType) => {
+  try {
+    const { hostname, port, protocol } = new URL(url)
+    const defaultPort = type === "tls" || protocol === "https:" ? 443 : 80
+    return { host: hostname.replace(/^\[|\]$/g, ""), port: Number(port) || defaultPort }
+  } catch {
+    return { host: "", port: 0 }
+  }
+}
+
+// 200 → [200, 200], "2xx" → [200, 299], "200-299" → [200, 299]
+export const parseStatusCode = (code: StatusCode): StatusRange => {
+  const text = String(code).trim().toLowerCase()
+  if (text.endsWith("xx")) {
+    const base = Number(text[0]) * 100
+    return [base, base + 99]
+  }
+  const [min, max = min] = text.split("-").map(Number)
+  return [min, max]
+}
+
+const toTarget = (url: string, check: HealthCheck = {}): HealthTarget => {
+  const type = check.type ?? "http"
+  const endpoint = resolveEndpoint(url, type)
+
+  return {
+    url,
+    type,
+    interval: Math.max(5, check.interval ?? DEFAULT_INTERVAL),
+    timeout: Math.max(1, check.timeout ?? DEFAULT_TIMEOUT),
+    probeUrl: resolveProbeUrl(url, check.path),
+    method: check.method ?? "GET",
+    expectedStatus:
+      check.expectedStatus === undefined ? undefined : [check.expectedStatus].flat().map(parseStatusCode),
+    headers: check.headers,
+    followRedirects: check.followRedirects !== false,
+    keyword: check.keyword,
+    jsonPath: check.jsonPath,
+    jsonValue: check.jsonValue,
+    host: check.host ?? endpoint.host,
+    port: check.port ?? endpoint.port,
+    record: check.record ?? "A",
+    expectedRecords: check.expectedRecords,
+    resolver: check.resolver,
+  }
+}
+
+// Probe targets for a single service; url and alt_url are checked separately
+export const getServiceTargets = (service: Service): HealthTarget[] => {
+  if (service.healthcheck?.enabled === false) return []
+
+  const targets = [toTarget(service.url, service.healthcheck)]
+  if (service.alt_url) {
+    targets.push(toTarget(service.alt_url, service.healthcheck))
+  }
+  return targets
+}
+
+// Every probe target in the config (tab main URLs and the network probe included), de-duplicated by URL
+export const collectHealthTargets = (config: Config): HealthTarget[] => {
+  const targets = new Map<string, HealthTarget>()
+  if (config.network?.probe) {
+    targets.set(config.network.probe, toTarget(config.network.probe))
+  }
+  config.tabs.forEach((tab) => {
+    if (!targets.has(tab.mainUrl)) {
+      targets.set(tab.mainUrl, toTarget(tab.mainUrl))
+    }
+    tab.services.forEach((service) => {
+      getServiceTargets(service).forEach((target) => {
+        if (!targets.has(target.url)) {
+          targets.set(target.url, target)
+        }
+      })
+    })
+  })
+  return Array.from(targets.values())
+}
+
+// Status of a service's primary URL
+export const getServiceStatus = (service: Service, results: Record<string, HealthResult>): ServiceStatus =>
+  service.healthcheck?.enabled === false ? "disabled" : (results[service.url]?.status ?? "pending")
+
+// Aggregate a tab's health from its main URL and the primary URL of each service
+export const getTabHealth = (tab: Tab, results: Record<string, HealthResult>): TabHealth => {
+  const main = results[tab.mainUrl]
+  const checked = tab.services
+    .filter((service) => service.healthcheck?.enabled !== false)
+    .map((service) => results[service.url])
+    .filter((result): result is HealthResult => result !== undefined)
+  const failing = checked.filter((result) => result.status !== "up").length
+
+  let status: TabHealthStatus = "up"
+  if (!main && checked.length === 0) {
+    status = "pending"
+  } else if (main?.status === "down" || (checked.length > 0 && failing === checked.length)) {
+    status = "unreachable"
+  } else if (failing > 0) {
+    status = "partial"
+  }
+
+  return { status, failing, total: checked.length }
+}
+
+// Without an explicit list, any status below 400 is healthy
+export const matchesExpected = (statusCode: number, expected?: StatusRange[]) => {
+  if (expected) return expected.some(([min, max]) => statusCode >= min && statusCode <= max)
+  return statusCode < 400
+}
+
+// Keyword and JSON assertions need the body of a GET response
+export const hasBodyAssertions = (target: HealthTarget) =>
+  target.method === "GET" && (target.keyword !== undefined || target.jsonPath !== undefined)
+
+const sameValue = (actual: unknown, expected: HealthTarget["jsonValue"]) =>
+  actual === expected || (actual !== null && typeof actual !== "object" && String(actual) === String(expected))
+
+// Why a response body fails the keyword and JSON assertions, or undefined when it passes
+const checkResponseBody = (target: HealthTarget, body: string) => {
+  if (target.keyword !== undefined && !body.includes(target.keyword)) {
+    return `Response does not contain "${target.keyword}"`
+  }
+  if (target.jsonPath === undefined) return undefined
+
+  let json: unknown
+  try {
+    json = JSON.parse(body)
+  } catch {
+    return "Response is not valid JSON"
+  }
+  const { found, value } = readJsonPath(json, target.jsonPath)
+  if (!found) return `${target.jsonPath} is missing from the response`
+  if (target.jsonValue !== undefined && !sameValue(value, target.jsonValue)) {
+    return `${target.jsonPath} is ${JSON.stringify(value)}, expected ${JSON.stringify(target.jsonValue)}`
+  }
+  return undefined
+}
+
+// Verdict on an HTTP answer: degraded when the status or, given the body, an assertion doesn't match
+export const evaluateResponse = (target: HealthTarget, statusCode: number, body?: string) => {
+  if (!matchesExpected(statusCode, target.expectedStatus)) {
+    return { status: "degraded" as const, error: `Unexpected HTTP ${statusCode}` }
+  }
+  const failure = body === undefined ? undefined : checkResponseBody(target, body)
+  return failure ? { status: "degraded" as const, error: failure } : { status: "up" as const }
+}
+
+// Probe from the browser. Only HTTP is possible here: TCP, DNS and TLS checks request the URL instead, and
+// without CORS headers the status and body stay hidden, so an answer is all that can be checked.
+export const probeTarget = async (target: HealthTarget): Promise<HealthResult> => {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), target.timeout * 1000)
+  let started = performance.now()
+  const http = target.type === "http"
+
+  try {
+    let response: Response
+    try {
+      response = await fetch(http ? target.probeUrl : target.url, {
+        method: http ? target.method : "GET",
+        headers: http ? target.headers : undefined,
+        redirect: http && !target.followRedirects ? "manual" : "follow",
+        cache: "no-store",
+        signal: controller.signal,
+      })
+    } catch (err) {
+      if (controller.signal.aborted) throw err
+
+      // Most self-hosted apps don't send CORS headers. An opaque response
+      // still proves the host answered, even though the status is hidden.
+      started = performance.now()
+      response = await fetch(http ? target.probeUrl : target.url, {
+        method: http ? target.method : "GET",
+        mode: "no-cors",
+        cache: "no-store",
+        signal: controller.signal,
+      })
+    }
+
+    const latency = Math.round(performance.now() - started)
+
+    // A redirect that isn't followed is opaque too; it still means the host answered
+    if (response.type === "opaque" || response.type === "opaqueredirect" || !http) {
+      return { status: "up", checkedAt: Date.now(), latency }
+    }
+
+    const body = hasBodyAssertions(target) ? await response.text() : undefined
+    return {
+      ...evaluateResponse(target, response.status, body),
+      checkedAt: Date.now(),
+      latency,
+      statusCode: response.status,
+    }
+  } catch (err) {
+    return {
+      status: "down",
+      checkedAt: Date.now(),
+      error: controller.signal.aborted
+        ? `Timed out after ${target.timeout}s`
+        : err instanceof Error
+          ? err.message
+          : "Request failed",
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
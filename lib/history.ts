@@ -0,0 +1,214 @@
+import type { HealthResult, HealthStatus } from "@/lib/health"
+
+// One health check of a URL, as kept in the browser's history or by the server's probe scheduler
+export interface HistoryEntry {
+  url: string
+  checkedAt: number // epoch milliseconds
+  status: HealthStatus
+  latency?: number
+}
+
+export interface HistorySummary {
+  checks: number
+  // Share of checks that were up, 0-100; null without checks
+  uptime: number | null
+  averageLatency: number | null
+}
+
+export interface HistoryPoint extends HistorySummary {
+  time: number // start of the bucket
+}
+
+// A range of a URL's checks as the history dialog charts it: its summary and one point per bucket
+export interface HistoryChart {
+  summary: HistorySummary
+  points: HistoryPoint[]
+}
+
+// Totals of a set of checks, which add up across buckets
+export interface HistoryCounts {
+  checks: number
+  up: number
+  measured: number // checks with a latency
+  totalLatency: number
+}
+
+export type HistoryRange = "24h" | "7d" | "30d"
+
+const HOUR = 60 * 60 * 1000
+
+// Each range is charted in buckets of averaged checks
+export const HISTORY_RANGES: Record<HistoryRange, { label: string; duration: number; bucket: number }> = {
+  "24h": { label: "24 hours", duration: 24 * HOUR, bucket: HOUR / 2 },
+  "7d": { label: "7 days", duration: 7 * 24 * HOUR, bucket: 4 * HOUR },
+  "30d": { label: "30 days", duration: 30 * 24 * HOUR, bucket: 12 * HOUR },
+}
+
+export const isHistoryRange = (value: string): value is HistoryRange =>
+  Object.prototype.hasOwnProperty.call(HISTORY_RANGES, value)
+
+// Checks older than the longest range are dropped
+export const HISTORY_RETENTION = HISTORY_RANGES["30d"].duration
+
+// Where the history dialog and sparklines read checks from: this browser, or the server in server mode
+export interface HistorySource {
+  label: string // who made the checks, e.g. "this browser"
+  readChart: (url: string, range: HistoryRange) => Promise<HistoryChart>
+  readRecentHistory: (url: string, limit: number) => Promise<HistoryEntry[]>
+}
+
+const DB_NAME = "server-dashboard"
+const DB_VERSION = 1
+const STORE = "health-history"
+const BY_URL = "url-checkedAt"
+const BY_TIME = "checkedAt"
+
+let database: Promise<IDBDatabase> | null = null
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { autoIncrement: true })
+        store.createIndex(BY_URL, ["url", "checkedAt"])
+        store.createIndex(BY_TIME, "checkedAt")
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Forget a failed open (e.g. storage blocked) so a later call can try again
+    database.catch(() => {
+      database = null
+    })
+  }
+  return database
+}
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const urlRange = (url: string, since = -Infinity) => IDBKeyRange.bound([url, since], [url, Infinity])
+
+export const recordHealth = async (url: string, result: HealthResult) => {
+  const db = await openDatabase()
+  const entry: HistoryEntry = { url, checkedAt: result.checkedAt, status: result.status, latency: result.latency }
+  await toPromise(db.transaction(STORE, "readwrite").objectStore(STORE).add(entry))
+}
+
+// Checks of a URL since the given time, oldest first
+export const readHistory = async (url: string, since: number): Promise<HistoryEntry[]> => {
+  const db = await openDatabase()
+  return toPromise(db.transaction(STORE).objectStore(STORE).index(BY_URL).getAll(urlRange(url, since)))
+}
+
+// The latest checks of a URL, oldest first
+export const readRecentHistory = async (url: string, limit: number): Promise<HistoryEntry[]> => {
+  const db = await openDatabase()
+  const request = db.transaction(STORE).objectStore(STORE).index(BY_URL).openCursor(urlRange(url), "prev")
+
+  return new Promise<HistoryEntry[]>((resolve, reject) => {
+    const entries: HistoryEntry[] = []
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (cursor && entries.length < limit) {
+        entries.push(cursor.value)
+        cursor.continue()
+      } else {
+        resolve(entries.reverse())
+      }
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const browserHistory: HistorySource = {
+  label: "this browser",
+  readChart: async (url, range) => {
+    const now = Date.now()
+    return chartHistory(await readHistory(url, now - HISTORY_RANGES[range].duration), range, now)
+  },
+  readRecentHistory,
+}
+
+export const pruneHistory = async (now = Date.now()) => {
+  const db = await openDatabase()
+  const request = db
+    .transaction(STORE, "readwrite")
+    .objectStore(STORE)
+    .index(BY_TIME)
+    .openCursor(IDBKeyRange.upperBound(now - HISTORY_RETENTION))
+
+  return new Promise<void>((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (cursor) {
+        cursor.delete()
+        cursor.continue()
+      } else {
+        resolve()
+      }
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const NO_CHECKS: HistoryCounts = { checks: 0, up: 0, measured: 0, totalLatency: 0 }
+
+const addCounts = (counts: HistoryCounts, more: HistoryCounts): HistoryCounts => ({
+  checks: counts.checks + more.checks,
+  up: counts.up + more.up,
+  measured: counts.measured + more.measured,
+  totalLatency: counts.totalLatency + more.totalLatency,
+})
+
+const countEntry = (entry: HistoryEntry): HistoryCounts => ({
+  checks: 1,
+  up: entry.status === "up" ? 1 : 0,
+  measured: entry.latency !== undefined ? 1 : 0,
+  totalLatency: entry.latency ?? 0,
+})
+
+// Degraded checks (the host answered with an unexpected status) count against uptime
+export const summarizeCounts = ({ checks, up, measured, totalLatency }: HistoryCounts): HistorySummary => ({
+  checks,
+  uptime: checks > 0 ? (up / checks) * 100 : null,
+  averageLatency: measured > 0 ? Math.round(totalLatency / measured) : null,
+})
+
+export const summarizeHistory = (entries: HistoryEntry[]): HistorySummary =>
+  summarizeCounts(entries.map(countEntry).reduce(addCounts, NO_CHECKS))
+
+// The chart of a range from the totals of its buckets, indexed from the start of the range. Buckets without
+// checks have null values so charts show a gap. The server totals its checks in SQL and sends only the chart.
+export const chartCounts = (
+  buckets: Map<number, HistoryCounts>,
+  range: HistoryRange,
+  now = Date.now(),
+): HistoryChart => {
+  const { duration, bucket } = HISTORY_RANGES[range]
+  const start = now - duration
+  const points = Array.from({ length: Math.ceil(duration / bucket) }, (_, index) => ({
+    time: start + index * bucket,
+    ...summarizeCounts(buckets.get(index) ?? NO_CHECKS),
+  }))
+  const total = Array.from(buckets.values()).reduce(addCounts, NO_CHECKS)
+  return { summary: summarizeCounts(total), points }
+}
+
+export const chartHistory = (entries: HistoryEntry[], range: HistoryRange, now = Date.now()): HistoryChart => {
+  const { duration, bucket } = HISTORY_RANGES[range]
+  const start = now - duration
+  const buckets = new Map<number, HistoryCounts>()
+
+  entries.forEach((entry) => {
+    const index = Math.floor((entry.checkedAt - start) / bucket)
+    if (index >= 0 && index < Math.ceil(duration / bucket)) {
+      buckets.set(index, addCounts(buckets.get(index) ?? NO_CHECKS, countEntry(entry)))
+    }
+  })
+  return chartCounts(buckets, range, now)
+}
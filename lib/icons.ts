@@ -0,0 +1,115 @@
+import dynamicIconImports from "lucide-react/dynamicIconImports"
+
+import { formatPath, type ConfigIssue } from "@/lib/config-schema"
+import type { Config } from "@/lib/types"
+
+export type LucideIconName = keyof typeof dynamicIconImports
+
+export interface AppIcon {
+  title: string
+  color: string
+}
+
+export type IconSource =
+  | { kind: "lucide"; name: LucideIconName }
+  | { kind: "app"; app: AppIcon; src: string }
+  | { kind: "image"; src: string }
+  | { kind: "emoji"; text: string }
+  | { kind: "unknown"; name: string }
+
+// Names the dashboard understood before any lucide icon could be used
+const LEGACY_NAMES: Record<string, LucideIconName> = {
+  home: "house",
+  location: "map-pin",
+  server: "database",
+}
+
+// Bundled logos for common self-hosted apps, drawn in white on the app's brand colour. The SVGs under
+// public/icons/apps/ come from Simple Icons (CC0); apps it has no logo for aren't bundled.
+export const APP_ICONS: Record<string, AppIcon> = {
+  adguard: { title: "AdGuard Home", color: "#68bc71" },
+  bitwarden: { title: "Bitwarden", color: "#175ddc" },
+  cloudflare: { title: "Cloudflare", color: "#f38020" },
+  docker: { title: "Docker", color: "#2496ed" },
+  emby: { title: "Emby", color: "#52b54b" },
+  gitea: { title: "Gitea", color: "#609926" },
+  gitlab: { title: "GitLab", color: "#fc6d26" },
+  grafana: { title: "Grafana", color: "#f46800" },
+  "home-assistant": { title: "Home Assistant", color: "#18bcf2" },
+  immich: { title: "Immich", color: "#4250af" },
+  jellyfin: { title: "Jellyfin", color: "#aa5cc3" },
+  mealie: { title: "Mealie", color: "#e58325" },
+  minio: { title: "MinIO", color: "#c72e49" },
+  nextcloud: { title: "Nextcloud", color: "#0082c9" },
+  nginx: { title: "NGINX", color: "#009639" },
+  "nginx-proxy-manager": { title: "Nginx Proxy Manager", color: "#f15833" },
+  paperless: { title: "Paperless-ngx", color: "#17541f" },
+  pihole: { title: "Pi-hole", color: "#96060c" },
+  plex: { title: "Plex", color: "#e5a00d" },
+  portainer: { title: "Portainer", color: "#13bef9" },
+  prometheus: { title: "Prometheus", color: "#e6522c" },
+  proxmox: { title: "Proxmox", color: "#e57000" },
+  qbittorrent: { title: "qBittorrent", color: "#2f67ba" },
+  radarr: { title: "Radarr", color: "#ffc230" },
+  sonarr: { title: "Sonarr", color: "#35c5f4" },
+  syncthing: { title: "Syncthing", color: "#0891d1" },
+  traefik: { title: "Traefik", color: "#24a1c1" },
+  transmission: { title: "Transmission", color: "#d70008" },
+  truenas: { title: "TrueNAS", color: "#0095d5" },
+  "uptime-kuma": { title: "Uptime Kuma", color: "#5cdd8b" },
+  vaultwarden: { title: "Vaultwarden", color: "#175ddc" },
+}
+
+const isLucideName = (name: string): name is LucideIconName =>
+  Object.prototype.hasOwnProperty.call(dynamicIconImports, name)
+
+const isAppName = (name: string) => Object.prototype.hasOwnProperty.call(APP_ICONS, name)
+
+const appIcon = (name: string): IconSource => ({ kind: "app", app: APP_ICONS[name], src: `/icons/apps/${name}.svg` })
+
+const IMAGE_PATTERN = /^(https?:\/\/|\/|\.\/)|\.(png|svg|jpe?g|webp|gif|ico)$/i
+const NAME_PATTERN = /^[a-z0-9-]+$/i
+
+// Work out what an icon value from the config refers to. Bare names are looked up as legacy names, then
+// bundled app icons, then lucide icons; "app:" and "lucide:" prefixes pick one explicitly.
+export const parseIcon = (value: string): IconSource => {
+  const icon = value.trim()
+
+  if (IMAGE_PATTERN.test(icon)) return { kind: "image", src: icon }
+
+  const [, prefix, prefixed] = icon.match(/^(app|lucide):(.+)$/i) ?? []
+  if (prefix) {
+    const name = prefixed.toLowerCase()
+    if (prefix.toLowerCase() === "app" && isAppName(name)) return appIcon(name)
+    if (prefix.toLowerCase() === "lucide" && isLucideName(name)) return { kind: "lucide", name }
+    return { kind: "unknown", name: icon }
+  }
+
+  if (NAME_PATTERN.test(icon)) {
+    const name = icon.toLowerCase()
+    if (Object.prototype.hasOwnProperty.call(LEGACY_NAMES, name)) return { kind: "lucide", name: LEGACY_NAMES[name] }
+    if (isAppName(name)) return appIcon(name)
+    if (isLucideName(name)) return { kind: "lucide", name }
+    return { kind: "unknown", name: icon }
+  }
+
+  return /\p{Extended_Pictographic}/u.test(icon) ? { kind: "emoji", text: icon } : { kind: "unknown", name: icon }
+}
+
+// Icons that resolve to nothing; they render as the fallback icon and are reported as warnings
+export const findIconIssues = (config: Config): ConfigIssue[] => {
+  const issues: ConfigIssue[] = []
+  const check = (icon: string | undefined, path: (string | number)[]) => {
+    if (icon && parseIcon(icon).kind === "unknown") {
+      issues.push({ path: formatPath(path), message: `unknown icon "${icon}"` })
+    }
+  }
+
+  config.tabs.forEach((tab, tabIndex) => {
+    check(tab.icon, ["tabs", tabIndex, "icon"])
+    tab.services.forEach((service, serviceIndex) => {
+      check(service.icon, ["tabs", tabIndex, "services", serviceIndex, "icon"])
+    })
+  })
+  return issues
+}
@@ -0,0 +1,23 @@
+// A small subset of JSONPath for health check assertions: dotted keys and array indexes, with or without a
+// leading "$", e.g. "$.status", "data.items[0].state" or "checks.0.ok"
+
+const parsePath = (path: string) =>
+  path
+    .trim()
+    .replace(/^\$\.?/, "")
+    .replace(/\[(\d+)\]/g, ".$1")
+    .replace(/\[["']([^"']*)["']\]/g, ".$1")
+    .split(".")
+    .filter(Boolean)
+
+// The value at a path, or found: false when any step along it is missing
+export const readJsonPath = (value: unknown, path: string): { found: boolean; value?: unknown } => {
+  let current = value
+  for (const key of parsePath(path)) {
+    if (current === null || typeof current !== "object" || !Object.prototype.hasOwnProperty.call(current, key)) {
+      return { found: false }
+    }
+    current = (current as Record<string, unknown>)[key]
+  }
+  return { found: true, value: current }
+}
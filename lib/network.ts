@@ -0,0 +1,54 @@
+import type { HealthResult } from "@/lib/health"
+import type { Config, Service } from "@/lib/types"
+
+export type NetworkProfile = "home" | "remote"
+
+// "auto" follows detection; the others pin a profile until changed back
+export type NetworkMode = "auto" | NetworkProfile
+
+// Names that only resolve or route inside a home network
+const PRIVATE_SUFFIXES = [".local", ".lan", ".home", ".internal", ".home.arpa"]
+
+const isPrivateIPv4 = (host: string) => {
+  const parts = host.split(".").map(Number)
+  if (parts.length !== 4 || parts.some((part) => !Number.isInteger(part) || part < 0 || part > 255)) return false
+  const [a, b] = parts
+  return (
+    a === 10 || a === 127 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 169 && b === 254)
+  )
+}
+
+// Whether a URL points into a private network: RFC 1918, loopback and link-local addresses, IPv6 unique and
+// link-local addresses, single-label names and local suffixes such as .lan
+export const isPrivateUrl = (url: string) => {
+  let host: string
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, "")
+  } catch {
+    return false
+  }
+  if (host.includes(":")) return host === "::1" || /^f[cd]/.test(host) || /^fe[89ab]/.test(host)
+  if (/^[\d.]+$/.test(host)) return isPrivateIPv4(host)
+  return !host.includes(".") || PRIVATE_SUFFIXES.some((suffix) => host.endsWith(suffix))
+}
+
+// URLs that answer only from the home network: the configured probe, or else the servers' main URLs on private
+// addresses. Public main URLs answer from anywhere and would always report home.
+export const getNetworkProbeUrls = (config: Config) =>
+  config.network?.probe ? [config.network.probe] : config.tabs.map((tab) => tab.mainUrl).filter(isPrivateUrl)
+
+// Home when any probe URL answers, remote once all of them failed, null while still checking. Without any URL to
+// probe it is remote, since alt_url is the address meant to work from anywhere.
+export const detectNetworkProfile = (config: Config, results: Record<string, HealthResult>): NetworkProfile | null => {
+  const urls = getNetworkProbeUrls(config)
+  if (urls.length === 0) return "remote"
+  const checked = urls.map((url) => results[url]).filter((result): result is HealthResult => result !== undefined)
+
+  if (checked.some((result) => result.status !== "down")) return "home"
+  if (checked.length === urls.length) return "remote"
+  return null
+}
+
+// The URL the primary Open action targets: the LAN url at home, the alt_url elsewhere when there is one
+export const getPreferredUrl = (service: Service, profile: NetworkProfile | null) =>
+  profile === "remote" && service.alt_url ? service.alt_url : service.url
@@ -0,0 +1,88 @@
+import type { HealthResult } from "@/lib/health"
+import type { NotificationsConfig } from "@/lib/types"
+
+// Degraded services answer with an unexpected status, so for notifications they count as down
+export type ReportedState = "up" | "down"
+
+export type NotificationSettings = Required<NotificationsConfig>
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  threshold: 2,
+  flapWindow: 15,
+  flapLimit: 4,
+}
+
+export const getNotificationSettings = (config: NotificationsConfig = {}): NotificationSettings => ({
+  ...DEFAULT_NOTIFICATION_SETTINGS,
+  ...config,
+})
+
+// What is known about one service between checks
+export interface TransitionState {
+  reported: ReportedState // the last confirmed state
+  candidate: ReportedState | null // a different state seen in the latest checks, not yet confirmed
+  streak: number // consecutive checks in the candidate state
+  changes: number[] // times of confirmed state changes within the flap window
+  flapping: boolean
+  checkedAt: number // the last result taken into account
+}
+
+export type TransitionEvent =
+  | { kind: "change"; from: ReportedState; to: ReportedState; error?: string }
+  | { kind: "flapping" }
+  | { kind: "settled"; state: ReportedState }
+
+const toReported = (result: HealthResult): ReportedState => (result.status === "up" ? "up" : "down")
+
+// Feed one check result into a service's state. A new state has to hold for `threshold` checks in a row
+// before it is reported; a service that changes state `flapLimit` times within `flapWindow` minutes is
+// reported once as flapping and stays quiet until it has kept one state for a whole window. The first
+// result only sets the baseline.
+export const trackTransition = (
+  state: TransitionState | undefined,
+  result: HealthResult,
+  settings: NotificationSettings,
+): { state: TransitionState; event: TransitionEvent | null } => {
+  const observed = toReported(result)
+  if (!state) {
+    const baseline = { reported: observed, candidate: null, streak: 0, changes: [], flapping: false }
+    return { state: { ...baseline, checkedAt: result.checkedAt }, event: null }
+  }
+  if (result.checkedAt <= state.checkedAt) return { state, event: null }
+
+  const windowStart = result.checkedAt - settings.flapWindow * 60 * 1000
+  const next: TransitionState = {
+    ...state,
+    changes: state.changes.filter((at) => at > windowStart),
+    checkedAt: result.checkedAt,
+  }
+
+  if (observed === state.reported) {
+    next.candidate = null
+    next.streak = 0
+  } else {
+    next.streak = state.candidate === observed ? state.streak + 1 : 1
+    next.candidate = observed
+  }
+
+  if (next.candidate && next.streak >= settings.threshold) {
+    const from = next.reported
+    next.reported = next.candidate
+    next.candidate = null
+    next.streak = 0
+    next.changes = [...next.changes, result.checkedAt]
+
+    if (next.flapping) return { state: next, event: null }
+    if (next.changes.length >= settings.flapLimit) {
+      next.flapping = true
+      return { state: next, event: { kind: "flapping" } }
+    }
+    return { state: next, event: { kind: "change", from, to: next.reported, error: result.error } }
+  }
+
+  if (next.flapping && next.changes.length === 0 && !next.candidate) {
+    next.flapping = false
+    return { state: next, event: { kind: "settled", state: next.reported } }
+  }
+  return { state: next, event: null }
+}
@@ -0,0 +1,52 @@
+import { getServiceId } from "@/lib/services"
+import type { Config } from "@/lib/types"
+
+// A per-device ordering of tabs (by key) and of each tab's services (by service id), applied over the config
+export interface OrderOverlay {
+  tabs: string[]
+  services: Record<string, string[]>
+}
+
+export const EMPTY_ORDER: OrderOverlay = { tabs: [], services: {} }
+
+export const hasCustomOrder = (overlay: OrderOverlay) =>
+  overlay.tabs.length > 0 || Object.keys(overlay.services).length > 0
+
+// Sort items by their position in `order`; items it doesn't mention keep their config order after the rest
+const sortBy = <T>(items: T[], order: string[] | undefined, idOf: (item: T) => string) => {
+  if (!order || order.length === 0) return items
+  const position = (item: T) => {
+    const index = order.indexOf(idOf(item))
+    return index === -1 ? order.length : index
+  }
+  return [...items].sort((a, b) => position(a) - position(b))
+}
+
+export const applyOrder = (config: Config, overlay: OrderOverlay): Config => {
+  if (!hasCustomOrder(overlay)) return config
+  return {
+    ...config,
+    tabs: sortBy(config.tabs, overlay.tabs, (tab) => tab.key).map((tab) => ({
+      ...tab,
+      services: sortBy(tab.services, overlay.services[tab.key], getServiceId),
+    })),
+  }
+}
+
+// Move `id` to where `targetId` is, shifting the items in between
+export const moveTo = (ids: string[], id: string, targetId: string) => {
+  const from = ids.indexOf(id)
+  const to = ids.indexOf(targetId)
+  if (from === -1 || to === -1 || from === to) return ids
+
+  const next = [...ids]
+  next.splice(from, 1)
+  next.splice(to, 0, id)
+  return next
+}
+
+// The items on either side of `id`, for moving it with the keyboard
+export const getNeighbours = (ids: string[], id: string) => {
+  const index = ids.indexOf(id)
+  return { previous: ids[index - 1], next: index === -1 ? undefined : ids[index + 1] }
+}
@@ -0,0 +1,159 @@
+import type { Config, Service, Tab } from "@/lib/types"
+
+export interface ParsedQuery {
+  terms: string[]
+  servers: string[]
+  tags: string[]
+}
+
+export interface SearchResult {
+  service: Service
+  serverName: string
+  serverKey: string
+  score: number
+}
+
+// Relative importance of each searchable field
+const FIELD_WEIGHTS = {
+  name: 10,
+  tags: 6,
+  description: 4,
+  url: 3,
+  serverName: 3,
+  location: 2,
+  specs: 1,
+}
+
+type Field = keyof typeof FIELD_WEIGHTS
+
+// Split a query into free-text terms and server:/tag: qualifiers; values may be quoted
+export const parseQuery = (input: string): ParsedQuery => {
+  const parsed: ParsedQuery = { terms: [], servers: [], tags: [] }
+  const tokens = input.toLowerCase().matchAll(/(?:(server|tag):)?(?:"([^"]*)"?|(\S+))/g)
+
+  for (const [, qualifier, quoted, bare] of tokens) {
+    const value = (quoted ?? bare ?? "").trim()
+    if (!value) continue
+
+    if (qualifier === "server") parsed.servers.push(value)
+    else if (qualifier === "tag") parsed.tags.push(value)
+    else parsed.terms.push(value)
+  }
+  return parsed
+}
+
+// Characters of the term appear in order, e.g. "jlfn" in "jellyfin"
+const isSubsequence = (term: string, text: string) => {
+  let position = 0
+  for (const char of text) {
+    if (char === term[position]) position++
+    if (position === term.length) return true
+  }
+  return false
+}
+
+// How well a single term matches a piece of text, from 0 (no match) to 1 (whole word)
+const matchQuality = (term: string, text: string) => {
+  const value = text.toLowerCase()
+  const index = value.indexOf(term)
+
+  if (index !== -1) {
+    const startsWord = index === 0 || /[^a-z0-9]/.test(value[index - 1])
+    const endsWord = index + term.length === value.length || /[^a-z0-9]/.test(value[index + term.length])
+    if (startsWord && endsWord) return 1
+    if (startsWord) return 0.8
+    return 0.6
+  }
+
+  return term.length >= 3 && isSubsequence(term, value) ? 0.3 : 0
+}
+
+const fieldsOf = (service: Service, tab: Tab): Record<Field, string[]> => ({
+  name: [service.name],
+  tags: service.tags ?? [],
+  description: [service.description],
+  url: [
+    service.url,
+    service.alt_url ?? "",
+    ...(service.endpoints ?? []).flatMap((endpoint) => [endpoint.url, endpoint.label]),
+  ],
+  serverName: [tab.name],
+  location: [tab.tooltip.location],
+  specs: [tab.tooltip.specs],
+})
+
+// Score of the best field match for a term; 0 means the term matched nothing
+const scoreTerm = (term: string, fields: Record<Field, string[]>) => {
+  let best = 0
+  for (const field of Object.keys(fields) as Field[]) {
+    for (const text of fields[field]) {
+      best = Math.max(best, matchQuality(term, text) * FIELD_WEIGHTS[field])
+    }
+  }
+  return best
+}
+
+const matchesServer = (tab: Tab, servers: string[]) =>
+  servers.every((server) => tab.key.toLowerCase() === server || tab.name.toLowerCase().includes(server))
+
+const matchesTags = (service: Service, tags: string[]) =>
+  tags.every((tag) => (service.tags ?? []).some((serviceTag) => serviceTag.toLowerCase() === tag))
+
+// Rank every service against the query; all terms and qualifiers must match.
+// `boost` adds to the score of matching services, e.g. to favour frequently used ones.
+export const searchServices = (
+  config: Config,
+  input: string,
+  boost: (service: Service) => number = () => 0,
+): SearchResult[] => {
+  const query = parseQuery(input)
+  if (query.terms.length === 0 && query.servers.length === 0 && query.tags.length === 0) return []
+
+  const results: SearchResult[] = []
+  config.tabs.forEach((tab) => {
+    if (!matchesServer(tab, query.servers)) return
+
+    tab.services.forEach((service) => {
+      if (!matchesTags(service, query.tags)) return
+
+      const fields = fieldsOf(service, tab)
+      let score = 0
+      for (const term of query.terms) {
+        const termScore = scoreTerm(term, fields)
+        if (termScore === 0) return
+        score += termScore
+      }
+
+      results.push({ service, serverName: tab.name, serverKey: tab.key, score: score + boost(service) })
+    })
+  })
+
+  // Array.prototype.sort is stable, so equal scores keep config order
+  return results.sort((a, b) => b.score - a.score)
+}
+
+// Character ranges of text matching any term, merged and sorted, for highlighting without RegExp
+export const getHighlightRanges = (text: string, terms: string[]): [number, number][] => {
+  const value = text.toLowerCase()
+  const ranges: [number, number][] = []
+
+  terms.forEach((term) => {
+    if (!term) return
+    let index = value.indexOf(term)
+    while (index !== -1) {
+      ranges.push([index, index + term.length])
+      index = value.indexOf(term, index + term.length)
+    }
+  })
+
+  ranges.sort((a, b) => a[0] - b[0])
+  return ranges.reduce<[number, number][]>((merged, range) => {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push([...range])
+    }
+    return merged
+  }, [])
+}
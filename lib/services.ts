@@ -0,0 +1,63 @@
+import type { NetworkProfile } from "@/lib/network"
+import type { Config, EndpointKind, EndpointVisibility, Service, Tab } from "@/lib/types"
+
+export interface ServiceRef {
+  service: Service
+  tab: Tab
+}
+
+export interface Endpoint {
+  label: string
+  url: string
+  kind: EndpointKind
+  visibility: EndpointVisibility
+}
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+
+// Stable identity for a service that survives reordering and moving it to another tab.
+// Falls back to a slug of the name; validateConfig reports duplicates, which need an explicit `id`.
+export const getServiceId = (service: Service) => service.id || slugify(service.name)
+
+export const findServiceById = (config: Config, id: string): ServiceRef | undefined => {
+  for (const tab of config.tabs) {
+    const service = tab.services.find((candidate) => getServiceId(candidate) === id)
+    if (service) return { service, tab }
+  }
+  return undefined
+}
+
+// Every URL of a service as an endpoint: url and alt_url first, then the configured endpoints
+export const getServiceEndpoints = (service: Service): Endpoint[] => [
+  { label: "Main", url: service.url, kind: "web", visibility: "always" },
+  ...(service.alt_url ? [{ label: "Alt", url: service.alt_url, kind: "web" as const, visibility: "always" as const }] : []),
+  ...(service.endpoints ?? []).map((endpoint) => ({
+    ...endpoint,
+    kind: endpoint.kind ?? "web",
+    visibility: endpoint.visibility ?? "always",
+  })),
+]
+
+// Endpoints to show on the current network; while the profile is unknown both home and remote ones are shown
+export const getVisibleEndpoints = (service: Service, profile: NetworkProfile | null) =>
+  getServiceEndpoints(service).filter((endpoint) => {
+    if (endpoint.visibility === "hidden") return false
+    if (endpoint.visibility === "home") return profile !== "remote"
+    if (endpoint.visibility === "remote") return profile !== "home"
+    return true
+  })
+
+// The service a URL belongs to, matching any of its endpoints
+export const findServiceByUrl = (config: Config, url: string): ServiceRef | undefined => {
+  for (const tab of config.tabs) {
+    const service = tab.services.find((candidate) =>
+      getServiceEndpoints(candidate).some((endpoint) => endpoint.url === url),
+    )
+    if (service) return { service, tab }
+  }
+  return undefined
+}
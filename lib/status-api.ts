@@ -0,0 +1,83 @@
+import type { AlertChannelStatus } from "@/lib/alerts"
+import type { CertificateInfo } from "@/lib/certificates"
+import { getApiToken } from "@/lib/config-api"
+import type { HealthResult } from "@/lib/health"
+import type { HistoryChart, HistoryEntry, HistorySource } from "@/lib/history"
+
+// Client for the probe scheduler of server mode (server/scheduler.ts); absent on static hosting, on Node.js
+// versions without SQLite and when probing is turned off
+
+const fetchJson = async (url: string) => {
+  const response = await fetch(url, { cache: "no-store" })
+  const contentType = response.headers.get("content-type") ?? ""
+  if (!response.ok || !contentType.includes("application/json")) {
+    throw new Error(`Request to ${url} failed (HTTP ${response.status})`)
+  }
+  return response.json()
+}
+
+// The latest server-side result per URL, or null when the server doesn't probe
+export const fetchServerStatus = async (): Promise<Record<string, HealthResult> | null> => {
+  try {
+    const { results } = await fetchJson("/api/status")
+    return results && typeof results === "object" ? results : null
+  } catch {
+    return null
+  }
+}
+
+// The server buckets a range's checks itself, so a 30-day chart doesn't download every check
+export const serverHistory: HistorySource = {
+  label: "the server",
+  readChart: async (url, range): Promise<HistoryChart> => {
+    const { summary, points } = await fetchJson(`/api/history?${new URLSearchParams({ url, range })}`)
+    return { summary, points }
+  },
+  readRecentHistory: async (url, limit): Promise<HistoryEntry[]> => {
+    const { entries } = await fetchJson(`/api/history?${new URLSearchParams({ url, limit: String(limit) })}`)
+    return entries
+  },
+}
+
+// The latest certificate per https URL, or null when the server doesn't probe
+export const fetchServerCertificates = async (): Promise<Record<string, CertificateInfo> | null> => {
+  try {
+    const { certificates } = await fetchJson("/api/certificates")
+    return certificates && typeof certificates === "object" ? certificates : null
+  } catch {
+    return null
+  }
+}
+
+export class AlertApiError extends Error {
+  status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = "AlertApiError"
+    this.status = status
+  }
+}
+
+// The server's alert channels with their latest delivery
+export const fetchAlertChannels = async (): Promise<AlertChannelStatus[]> => {
+  const { channels } = await fetchJson("/api/alerts")
+  return channels
+}
+
+// Sends a test alert through a channel; the error says why the channel didn't take it
+export const sendTestAlert = async (channel: string): Promise<AlertChannelStatus[]> => {
+  const token = getApiToken()
+  const response = await fetch("/api/alerts/test", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify({ channel }),
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) throw new AlertApiError(response.status, body.error ?? `Test failed (HTTP ${response.status})`)
+  return body.channels
+}
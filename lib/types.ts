@@ -0,0 +1,165 @@
+// Shapes of the dashboard configuration loaded from config.js
+
+// "http" requests the URL; the others need server mode, the browser falls back to an HTTP request
+export type HealthCheckType = "http" | "tcp" | "dns" | "tls"
+
+export type DnsRecordType = "A" | "AAAA" | "CNAME" | "MX" | "NS" | "TXT"
+
+// A status code (200) or a range ("2xx", "200-299")
+export type StatusCode = number | string
+
+export interface HealthCheck {
+  enabled?: boolean
+  type?: HealthCheckType // default "http"
+  interval?: number // seconds between probes
+  timeout?: number // seconds before a probe counts as down
+
+  // HTTP
+  path?: string
+  method?: "GET" | "HEAD"
+  expectedStatus?: StatusCode | StatusCode[]
+  headers?: Record<string, string>
+  followRedirects?: boolean // default true; otherwise a redirect is judged by its own status
+  keyword?: string // text the response body must contain
+  jsonPath?: string // e.g. "$.status"; the body must be JSON with a value there
+  jsonValue?: string | number | boolean | null // the value expected at jsonPath
+
+  // TCP, TLS and DNS
+  host?: string // host to connect to or look up; default: the URL's hostname
+  port?: number // TCP and TLS; default: the URL's port
+  record?: DnsRecordType // default "A"
+  expectedRecords?: string[] // each must be among the DNS answers
+  resolver?: string // DNS server to ask, e.g. "192.168.1.2" or "192.168.1.2:5353"; default: the system's
+}
+
+export type EndpointKind = "web" | "api" | "admin" | "docs" | "tunnel"
+
+// "home" and "remote" endpoints only show on that network profile; "hidden" ones are never shown
+export type EndpointVisibility = "always" | "home" | "remote" | "hidden"
+
+export interface ServiceEndpoint {
+  label: string
+  url: string
+  kind?: EndpointKind // default "web"
+  visibility?: EndpointVisibility // default "always"
+}
+
+export interface Service {
+  id?: string // stable identity for favorites and history; defaults to a slug of the name
+  name: string
+  url: string
+  description: string
+  alt_url?: string
+  endpoints?: ServiceEndpoint[] // extra named URLs, listed after url and alt_url
+  icon?: string
+  tags?: string[]
+  category?: string
+  healthcheck?: HealthCheck
+}
+
+export interface Tab {
+  name: string
+  key: string
+  id: string
+  mainUrl: string
+  icon: string
+  tooltip: {
+    title: string
+    description: string
+    location: string
+    specs: string
+  }
+  services: Service[]
+}
+
+// How the dashboard tells the home network apart from anywhere else
+export interface NetworkConfig {
+  probe?: string // URL only reachable from home; defaults to the servers' mainUrl
+}
+
+// When a service's state change is reported, in the browser and as notifications
+export interface NotificationsConfig {
+  threshold?: number // consecutive checks in the new state before it counts; default 2
+  flapWindow?: number // minutes over which state changes are counted; default 15
+  flapLimit?: number // state changes within flapWindow that pause notifications for a service; default 4
+}
+
+// TLS certificates of https URLs, tracked in server mode
+export interface CertificatesConfig {
+  warnDays?: number // days before expiry that a service card shows a warning; default 14
+}
+
+// Alert channels are used by the server's probe scheduler. The config file is readable by anyone who can open
+// the dashboard, so secrets belong in environment variables: any string may contain {{env.ALERT_NAME}}, which
+// only the server expands, and only for names starting with ALERT_.
+interface AlertChannelBase {
+  name: string // unique; routes and test sends refer to it
+}
+
+export interface WebhookChannel extends AlertChannelBase {
+  type: "webhook"
+  url: string
+  method?: "POST" | "PUT" // default "POST"
+  headers?: Record<string, string>
+  body?: unknown // JSON template whose strings may use {{title}}, {{service}}, ...; default: the whole alert
+}
+
+// ntfy: url is the topic URL, e.g. https://ntfy.sh/my-alerts
+export interface NtfyChannel extends AlertChannelBase {
+  type: "ntfy"
+  url: string
+  token?: string // access token for protected topics
+  priority?: number // 1-5; outages default to 4
+}
+
+// Gotify: url is the server, token an application token
+export interface GotifyChannel extends AlertChannelBase {
+  type: "gotify"
+  url: string
+  token: string
+  priority?: number // 0-10; outages default to 8
+}
+
+// Discord and Slack incoming webhooks (and compatible ones such as Mattermost)
+export interface ChatChannel extends AlertChannelBase {
+  type: "discord" | "slack"
+  url: string
+}
+
+export interface EmailChannel extends AlertChannelBase {
+  type: "email"
+  host: string // SMTP server
+  port?: number // default 587, or 465 when secure
+  secure?: boolean // TLS from the start; otherwise STARTTLS is used when the server offers it
+  user?: string
+  password?: string
+  allowInsecureAuth?: boolean // log in without TLS, e.g. to a relay on localhost; off by default
+  from: string
+  to: string | string[]
+}
+
+export type AlertChannel = WebhookChannel | NtfyChannel | GotifyChannel | ChatChannel | EmailChannel
+
+export type AlertChannelType = AlertChannel["type"]
+
+// Sends alerts for matching servers and services to the named channels. A route without tabs and tags matches
+// everything; with both, a service has to match one of each. Servers have no tags.
+export interface AlertRoute {
+  channels: string[]
+  tabs?: string[] // tab keys
+  tags?: string[]
+}
+
+export interface AlertsConfig {
+  channels: AlertChannel[]
+  routes?: AlertRoute[] // default: every alert to every channel
+}
+
+export interface Config {
+  tabs: Tab[]
+  network?: NetworkConfig
+  variables?: Record<string, string> // usable in URLs as {{name}}
+  notifications?: NotificationsConfig
+  certificates?: CertificatesConfig
+  alerts?: AlertsConfig
+}
@@ -0,0 +1,47 @@
+// Dashboard view state kept in the query string, so links and back/forward work with the static export
+
+export interface UrlState {
+  tab: string | null
+  query: string
+  filters: string[]
+}
+
+const PARAMS = {
+  tab: "tab",
+  query: "q",
+  filters: "filter",
+}
+
+export const readUrlState = (): UrlState => {
+  const params = new URLSearchParams(window.location.search)
+  const filters = params.get(PARAMS.filters)
+
+  return {
+    tab: params.get(PARAMS.tab),
+    query: params.get(PARAMS.query) ?? "",
+    filters: filters ? filters.split(",").filter(Boolean) : [],
+  }
+}
+
+// Other parameters, such as ?config=, are left untouched
+export const writeUrlState = (state: UrlState, mode: "push" | "replace") => {
+  const url = new URL(window.location.href)
+  const set = (name: string, value: string) => {
+    if (value) {
+      url.searchParams.set(name, value)
+    } else {
+      url.searchParams.delete(name)
+    }
+  }
+
+  set(PARAMS.tab, state.tab ?? "")
+  set(PARAMS.query, state.query)
+  set(PARAMS.filters, state.filters.join(","))
+
+  if (url.href === window.location.href) return
+  if (mode === "push") {
+    window.history.pushState(null, "", url)
+  } else {
+    window.history.replaceState(null, "", url)
+  }
+}
@@ -0,0 +1,118 @@
+import { formatPath, type ConfigIssue } from "@/lib/config-schema"
+import type { Config, Service, Tab } from "@/lib/types"
+
+export interface ResolvedConfig {
+  config: Config
+  issues: ConfigIssue[]
+}
+
+type Variables = Record<string, string>
+
+// {{name}} placeholders; names may be dotted, e.g. {{tab.host}}
+const PLACEHOLDER = /\{\{\s*([a-zA-Z_][\w.-]*)\s*\}\}/g
+
+// A port with an optional path (":8096", ":8096/web") or a path ("/jellyfin"), relative to the tab's mainUrl
+const PORT_ONLY = /^:(\d{1,5})(.*)$/
+
+// Built-in variables describing where the dashboard itself is served from
+export const getLocationVariables = (): Variables => ({
+  host: window.location.hostname,
+  protocol: window.location.protocol.replace(/:$/, ""),
+  origin: window.location.origin,
+})
+
+const expand = (value: string, variables: Variables, missing: Set<string>) =>
+  value.replace(PLACEHOLDER, (placeholder, name: string) => {
+    if (name in variables) return variables[name]
+    missing.add(name)
+    return placeholder
+  })
+
+const isAbsoluteUrl = (value: string) => {
+  try {
+    new URL(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Variables describing a tab's main URL, for service URLs on the same host
+const tabVariables = (tab: Tab, mainUrl: string): Variables => {
+  try {
+    const url = new URL(mainUrl)
+    return {
+      "tab.key": tab.key,
+      "tab.host": url.hostname,
+      "tab.protocol": url.protocol.replace(/:$/, ""),
+      "tab.origin": url.origin,
+    }
+  } catch {
+    return { "tab.key": tab.key }
+  }
+}
+
+const resolveRelative = (value: string, mainUrl: string) => {
+  if (!value.startsWith(":") && !value.startsWith("/")) return value
+  try {
+    const base = new URL(mainUrl)
+    const port = value.match(PORT_ONLY)
+    if (port) return `${base.protocol}//${base.hostname}:${port[1]}${port[2]}`
+    return new URL(value, base).toString()
+  } catch {
+    return value
+  }
+}
+
+// Expand {{variables}} in every URL of the config and resolve port- or path-only service URLs against
+// the tab's mainUrl. Unknown variables and URLs that are still not absolute are reported as issues.
+export const resolveConfigUrls = (config: Config, builtins: Variables = getLocationVariables()): ResolvedConfig => {
+  const issues: ConfigIssue[] = []
+
+  const resolveUrl = (value: string, variables: Variables, path: (string | number)[], mainUrl?: string) => {
+    const missing = new Set<string>()
+    const expanded = expand(value, variables, missing)
+    const resolved = mainUrl ? resolveRelative(expanded, mainUrl) : expanded
+
+    if (missing.size > 0) {
+      const names = Array.from(missing, (name) => `"${name}"`).join(", ")
+      issues.push({ path: formatPath(path), message: `unknown variable ${names}` })
+    } else if (!isAbsoluteUrl(resolved)) {
+      issues.push({ path: formatPath(path), message: `invalid URL "${resolved}"` })
+    }
+    return resolved
+  }
+
+  // User variables may use the built-ins, e.g. lan: "{{protocol}}://192.168.0.10"
+  const variables: Variables = { ...builtins }
+  Object.entries(config.variables ?? {}).forEach(([name, value]) => {
+    variables[name] = expand(value, builtins, new Set())
+  })
+
+  const tabs = config.tabs.map((tab, tabIndex): Tab => {
+    const mainUrl = resolveUrl(tab.mainUrl, variables, ["tabs", tabIndex, "mainUrl"])
+    const scoped = { ...variables, ...tabVariables(tab, mainUrl) }
+
+    const services = tab.services.map((service, serviceIndex): Service => {
+      const path = ["tabs", tabIndex, "services", serviceIndex]
+      return {
+        ...service,
+        url: resolveUrl(service.url, scoped, [...path, "url"], mainUrl),
+        alt_url: service.alt_url && resolveUrl(service.alt_url, scoped, [...path, "alt_url"], mainUrl),
+        endpoints: service.endpoints?.map((endpoint, endpointIndex) => ({
+          ...endpoint,
+          url: resolveUrl(endpoint.url, scoped, [...path, "endpoints", endpointIndex, "url"], mainUrl),
+        })),
+      }
+    })
+
+    return { ...tab, mainUrl, services }
+  })
+
+  const network = config.network && {
+    ...config.network,
+    probe: config.network.probe && resolveUrl(config.network.probe, variables, ["network", "probe"]),
+  }
+
+  return { config: { ...config, tabs, ...(network && { network }) }, issues }
+}
@@ -0,0 +1,82 @@
+import { getServiceId } from "@/lib/services"
+import type { Service } from "@/lib/types"
+
+export type UsageAction = "open" | "copy"
+
+export interface UsageEntry {
+  serviceId: string
+  url: string
+  action: UsageAction
+  at: number // epoch milliseconds
+}
+
+export interface UsageStats {
+  count: number
+  lastUsed: number
+}
+
+const STORAGE_KEY = "server-dashboard-usage"
+// The command palette's own recent list from before it used this log
+const LEGACY_PALETTE_KEY = "server-dashboard-palette-recent"
+// Oldest entries are dropped beyond this, which keeps counts weighted towards recent habits
+const MAX_ENTRIES = 500
+
+export const readUsage = (): UsageEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    return Array.isArray(stored)
+      ? stored.filter(
+          (entry): entry is UsageEntry =>
+            typeof entry?.serviceId === "string" && typeof entry.url === "string" && typeof entry.at === "number",
+        )
+      : []
+  } catch {
+    return []
+  }
+}
+
+export const appendUsage = (entry: UsageEntry) => {
+  const next = [...readUsage(), entry].slice(-MAX_ENTRIES)
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  return next
+}
+
+export const clearUsage = () => {
+  localStorage.removeItem(STORAGE_KEY)
+  localStorage.removeItem(LEGACY_PALETTE_KEY)
+}
+
+export const isUsageStorageKey = (key: string | null) => key === STORAGE_KEY
+
+// Use count and last use per service id
+export const summarizeUsage = (entries: UsageEntry[]) => {
+  const stats = new Map<string, UsageStats>()
+  entries.forEach((entry) => {
+    const current = stats.get(entry.serviceId)
+    stats.set(entry.serviceId, {
+      count: (current?.count ?? 0) + 1,
+      lastUsed: Math.max(current?.lastUsed ?? 0, entry.at),
+    })
+  })
+  return stats
+}
+
+// Distinct service ids, most recently used first
+export const getRecentServiceIds = (entries: UsageEntry[], limit: number) => {
+  const ids: string[] = []
+  for (let index = entries.length - 1; index >= 0 && ids.length < limit; index--) {
+    if (!ids.includes(entries[index].serviceId)) ids.push(entries[index].serviceId)
+  }
+  return ids
+}
+
+// Most used first, then most recently used; unused services keep their config order
+export const sortByUsage = (services: Service[], stats: Map<string, UsageStats>) =>
+  [...services].sort((a, b) => {
+    const usageA = stats.get(getServiceId(a))
+    const usageB = stats.get(getServiceId(b))
+    return (usageB?.count ?? 0) - (usageA?.count ?? 0) || (usageB?.lastUsed ?? 0) - (usageA?.lastUsed ?? 0)
+  })
+
+// Search bonus for frequently used services: enough to break ties, never enough to beat a better name match
+export const usageBoost = (stats: UsageStats | undefined) => (stats ? Math.min(3, Math.log2(stats.count + 1)) : 0)
@@ -2,6 +2,10 @@
 // Edit this file and refresh the page - no rebuild needed!
 
 window.dashboardConfig = {
+  // Use in any URL as {{name}}, next to the built-in {{host}}, {{protocol}}, {{origin}} and {{tab.host}}
+  variables: {
+    domain: "example.com",
+  },
   tabs: [
     {
       name: "Main Server",
@@ -18,29 +22,49 @@ window.dashboardConfig = {
       services: [
         {
           name: "Manga Server",
-          url: "http://192.168.0.100:4000",
+          url: ":4000",
           description: "Access your favorite manga collections",
           icon: "📖",
-          alt_url: "https://manga.example.com",
+          category: "Media",
+          alt_url: "https://manga.{{domain}}",
         },
         {
           name: "Media Library",
-          url: "http://192.168.0.100:8096",
+          url: ":8096",
           description: "Stream your media with Jellyfin",
-          icon: "🎬",
-          alt_url: "https://media.example.com",
+          icon: "jellyfin", // bundled app icon; also accepts lucide names, emoji or an image URL
+          category: "Media",
+          tags: ["streaming"],
+          alt_url: "https://media.{{domain}}",
+          // Optional: more named URLs, each with its own open/copy actions
+          endpoints: [
+            { label: "API docs", url: ":8096/api-docs/swagger", kind: "docs" },
+            { label: "Dashboard", url: ":8096/web/#/dashboard", kind: "admin", visibility: "home" },
+          ],
+          // Optional: tune the status probe (all fields optional)
+          healthcheck: {
+            path: "/health",
+            expectedStatus: 200,
+            interval: 30, // seconds
+            timeout: 5, // seconds
+            method: "GET",
+          },
         },
         {
           name: "Torrent Client",
-          url: "http://192.168.0.100:8080",
+          url: ":8080",
           description: "qBittorrent Web UI",
-          icon: "⬇️",
+          icon: "qbittorrent",
+          category: "Downloads",
+          // Optional: check the peer port instead of the web UI (TCP, TLS and DNS checks need server mode)
+          // healthcheck: { type: "tcp", port: 51413 },
         },
         {
           name: "VS Code Server",
-          url: "http://192.168.0.100:8443",
+          url: ":8443",
           description: "Web-based development environment",
           icon: "💻",
+          category: "Development",
         },
       ],
     },
@@ -68,6 +92,9 @@ window.dashboardConfig = {
           url: "https://monitor.example.com",
           description: "Health metrics and logs",
           icon: "📊",
+          tags: ["monitoring"],
+          // Optional: assert on the response body
+          // healthcheck: { path: "/api/health", expectedStatus: "2xx", jsonPath: "$.database", jsonValue: "ok" },
         },
         {
           name: "Syncthing",
@@ -94,7 +121,8 @@ window.dashboardConfig = {
           name: "Portainer",
           url: "http://192.168.0.110:9000",
           description: "Docker container management UI",
-          icon: "🐳",
+          icon: "portainer",
+          tags: ["docker"],
         },
         {
           name: "Gitea",
@@ -107,6 +135,7 @@ window.dashboardConfig = {
           url: "http://192.168.0.110:3001",
           description: "Status page and uptime monitor",
           icon: "🟢",
+          tags: ["monitoring"],
         },
       ],
     },
@@ -177,27 +206,23 @@ window.dashboardConfig = {
       ],
     }
   ],
-}
+  // A URL that only answers on the home network, e.g. the router. Without it, the servers' mainUrl on private
+  // addresses (192.168.x.x, *.lan, ...) are probed; public ones like the VPS would answer from anywhere.
+  network: { probe: "http://192.168.0.1" },
 
-// Auto-update localhost URLs to current hostname
-if (typeof window !== "undefined") {
-  const currentHost = window.location.hostname
-  const currentProtocol = window.location.protocol
+  // Optional: how state-change notifications are debounced (these are the defaults)
+  // notifications: { threshold: 2, flapWindow: 15, flapLimit: 4 },
 
-  window.dashboardConfig.tabs.forEach((tab) => {
-    // Update main URL
-    if (tab.mainUrl.includes("localhost")) {
-      tab.mainUrl = tab.mainUrl.replace("localhost", currentHost)
-    }
+  // Optional: days before a certificate expires that service cards warn (server mode only)
+  // certificates: { warnDays: 14 },
 
-    // Update service URLs
-    tab.services.forEach((service) => {
-      if (service.url.includes("localhost")) {
-        service.url = service.url.replace("localhost", currentHost)
-      }
-      if (service.alt_url && service.alt_url.includes("localhost")) {
-        service.alt_url = service.alt_url.replace("localhost", currentHost)
-      }
-    })
-  })
+  // Optional: alerts sent by the server when servers or services go down or come back (server mode only).
+  // Secrets belong in the server's environment and are referenced as {{env.ALERT_NAME}}.
+  // alerts: {
+  //   channels: [
+  //     { name: "phone", type: "ntfy", url: "https://ntfy.sh/my-homelab" },
+  //     { name: "discord", type: "discord", url: "{{env.ALERT_DISCORD_WEBHOOK}}" },
+  //   ],
+  //   routes: [{ channels: ["discord"], tags: ["media"] }],
+  // },
 }
@@ -0,0 +1,177 @@
+import assert from "node:assert/strict"
+import { after, before, beforeEach, describe, it } from "node:test"
+
+import type { AlertEvent } from "@/lib/alerts"
+import { sendAlert } from "./alert-channels"
+import { startHttpStandIn, startSmtpStandIn } from "./test-stand-ins"
+
+const down: AlertEvent = {
+  kind: "down",
+  title: "Jellyfin is down",
+  message: "NAS · timeout",
+  service: "Jellyfin",
+  tab: "NAS",
+  url: "http://192.168.1.10:8096",
+  status: "down",
+  error: "timeout",
+  at: Date.UTC(2026, 0, 2, 3, 4, 5),
+}
+
+const recovered: AlertEvent = { ...down, kind: "up", title: "Jellyfin is back up", message: "NAS", status: "up" }
+
+// Environment variables the tests set, restored afterwards
+const TEST_VARIABLES = ["ALERT_TEST_TOKEN", "API_TOKEN_FOR_TEST"]
+
+describe("sendAlert", () => {
+  let http: Awaited<ReturnType<typeof startHttpStandIn>>
+  const saved = Object.fromEntries(TEST_VARIABLES.map((name) => [name, process.env[name]]))
+
+  before(async () => {
+    http = await startHttpStandIn()
+    process.env.ALERT_TEST_TOKEN = "s3cret"
+  })
+  after(async () => {
+    await http.close()
+    Object.entries(saved).forEach(([name, value]) => {
+      if (value === undefined) delete process.env[name]
+      else process.env[name] = value
+    })
+  })
+  beforeEach(() => {
+    http.requests.length = 0
+  })
+
+  it("posts the whole alert to a webhook without a body", async () => {
+    await sendAlert({ name: "hook", type: "webhook", url: `${http.url}/hooks/dashboard` }, down)
+
+    const [request] = http.requests
+    assert.equal(request.method, "POST")
+    assert.equal(request.path, "/hooks/dashboard")
+    assert.equal(request.headers["content-type"], "application/json")
+    assert.deepEqual(JSON.parse(request.body), down)
+  })
+
+  it("fills in a webhook body's placeholders and the ALERT_ environment", async () => {
+    await sendAlert(
+      {
+        name: "hook",
+        type: "webhook",
+        url: `${http.url}/hook`,
+        method: "PUT",
+        headers: { Authorization: "Bearer {{env.ALERT_TEST_TOKEN}}" },
+        body: { text: "{{title}}: {{error}}", at: "{{time}}", unknown: "{{nope}}", nested: ["{{service}}"] },
+      },
+      down,
+    )
+
+    const [request] = http.requests
+    assert.equal(request.method, "PUT")
+    assert.equal(request.headers.authorization, "Bearer s3cret")
+    assert.deepEqual(JSON.parse(request.body), {
+      text: "Jellyfin is down: timeout",
+      at: "2026-01-02T03:04:05.000Z",
+      unknown: "{{nope}}",
+      nested: ["Jellyfin"],
+    })
+  })
+
+  it("doesn't expand placeholders that a probed service put in the alert", async () => {
+    const event = { ...down, error: "{{env.ALERT_TEST_TOKEN}}" }
+    await sendAlert({ name: "hook", type: "webhook", url: http.url, body: { error: "{{error}}" } }, event)
+
+    assert.deepEqual(JSON.parse(http.requests[0].body), { error: "{{env.ALERT_TEST_TOKEN}}" })
+  })
+
+  it("refuses environment variables without the ALERT_ prefix", async () => {
+    process.env.API_TOKEN_FOR_TEST = "do-not-send"
+    await assert.rejects(
+      sendAlert({ name: "hook", type: "webhook", url: `${http.url}/{{env.API_TOKEN_FOR_TEST}}` }, down),
+      /not allowed/,
+    )
+    await assert.rejects(
+      sendAlert({ name: "hook", type: "webhook", url: `${http.url}/{{env.ALERT_MISSING}}` }, down),
+      /ALERT_MISSING is not set/,
+    )
+    assert.equal(http.requests.length, 0)
+  })
+
+  it("publishes to ntfy as JSON with the topic in the body", async () => {
+    const channel = {
+      name: "phone",
+      type: "ntfy" as const,
+      url: `${http.url}/my-homelab`,
+      token: "{{env.ALERT_TEST_TOKEN}}",
+    }
+    await sendAlert(channel, down)
+    await sendAlert(channel, recovered)
+
+    const [outage, recovery] = http.requests
+    assert.equal(outage.path, "/")
+    assert.equal(outage.headers.authorization, "Bearer s3cret")
+    assert.deepEqual(JSON.parse(outage.body), {
+      topic: "my-homelab",
+      title: "Jellyfin is down",
+      message: "NAS · timeout",
+      priority: 4,
+      tags: ["rotating_light"],
+      click: "http://192.168.1.10:8096",
+    })
+    assert.equal(JSON.parse(recovery.body).priority, 3)
+    assert.deepEqual(JSON.parse(recovery.body).tags, ["white_check_mark"])
+  })
+
+  it("sends Gotify messages with the application token", async () => {
+    const channel = { name: "gotify", type: "gotify" as const, url: `${http.url}/gotify/`, token: "app-token" }
+    await sendAlert(channel, down)
+    await sendAlert(channel, recovered)
+
+    const [outage, recovery] = http.requests
+    assert.equal(outage.path, "/gotify/message")
+    assert.equal(outage.headers["x-gotify-key"], "app-token")
+    assert.deepEqual(JSON.parse(outage.body), { title: "Jellyfin is down", message: "NAS · timeout", priority: 8 })
+    assert.equal(JSON.parse(recovery.body).priority, 5)
+  })
+
+  it("formats Discord and Slack messages", async () => {
+    await sendAlert({ name: "discord", type: "discord", url: `${http.url}/discord` }, down)
+    await sendAlert({ name: "slack", type: "slack", url: `${http.url}/slack` }, down)
+
+    assert.deepEqual(JSON.parse(http.requests[0].body), { content: "**Jellyfin is down**\nNAS · timeout" })
+    assert.deepEqual(JSON.parse(http.requests[1].body), { text: "*Jellyfin is down*\nNAS · timeout" })
+  })
+
+  it("rejects with the status and reply of a channel that refuses the alert", async () => {
+    const refusing = await startHttpStandIn(403)
+    try {
+      await assert.rejects(sendAlert({ name: "hook", type: "webhook", url: refusing.url }, down), {
+        message: "HTTP 403: rejected",
+      })
+    } finally {
+      await refusing.close()
+    }
+  })
+
+  it("mails every recipient of an email channel", async () => {
+    const smtp = await startSmtpStandIn({ extensions: [] })
+    try {
+      await sendAlert(
+        {
+          name: "mail",
+          type: "email",
+          host: "127.0.0.1",
+          port: smtp.port,
+          from: "Server Dashboard <alerts@example.com>",
+          to: "me@example.com, you@example.com",
+        },
+        down,
+      )
+    } finally {
+      await smtp.close()
+    }
+
+    assert.ok(smtp.commands.includes("MAIL FROM:<alerts@example.com>"))
+    assert.ok(smtp.commands.includes("RCPT TO:<me@example.com>"))
+    assert.ok(smtp.commands.includes("RCPT TO:<you@example.com>"))
+    assert.equal(smtp.messages.length, 1)
+  })
+})
@@ -0,0 +1,132 @@
+import { getAlertVariables, isUrgent, type AlertEvent, type AlertKind } from "@/lib/alerts"
+import type { AlertChannel, GotifyChannel, NtfyChannel, WebhookChannel } from "@/lib/types"
+import { sendMail } from "./smtp"
+
+// Seconds a channel gets to accept an alert
+const SEND_TIMEOUT = 10
+
+const ENV_PLACEHOLDER = /\{\{\s*env\.([a-zA-Z_]\w*)\s*\}\}/g
+// Only these variables can be expanded, so a config written through the API can't read the rest of the
+// server's environment (API_TOKEN included) by sending it to a webhook
+const ENV_PREFIX = "ALERT_"
+const PLACEHOLDER = /\{\{\s*([a-zA-Z_]\w*)\s*\}\}/g
+
+const NTFY_TAGS: Record<AlertKind, string> = {
+  down: "rotating_light",
+  up: "white_check_mark",
+  flapping: "warning",
+  settled: "information_source",
+  test: "test_tube",
+}
+
+// Applies a function to every string in a JSON-like value
+const mapStrings = (value: unknown, map: (text: string) => string): unknown => {
+  if (typeof value === "string") return map(value)
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, map))
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]))
+  }
+  return value
+}
+
+// {{env.ALERT_NAME}} → the server's environment variable; a missing or other one fails the send instead of going
+// out verbatim
+const expandEnv = (text: string) =>
+  text.replace(ENV_PLACEHOLDER, (_, name: string) => {
+    if (!name.startsWith(ENV_PREFIX)) {
+      throw new Error(`{{env.${name}}} is not allowed; alert variables must start with ${ENV_PREFIX}`)
+    }
+    const value = process.env[name]
+    if (value === undefined) throw new Error(`Environment variable ${name} is not set`)
+    return value
+  })
+
+const post = async (url: string, body: string, headers: Record<string, string>, method = "POST") => {
+  const response = await fetch(url, {
+    method,
+    headers,
+    body,
+    signal: AbortSignal.timeout(SEND_TIMEOUT * 1000),
+  })
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => "")).trim().slice(0, 200)
+    throw new Error(`HTTP ${response.status}${detail ? `: ${detail}` : ""}`)
+  }
+}
+
+const postJson = (url: string, body: unknown, headers: Record<string, string> = {}, method?: string) =>
+  post(url, JSON.stringify(body), { "Content-Type": "application/json", ...headers }, method)
+
+// Environment variables are expanded before the alert's own values, so text from a probed service can't
+// pull secrets into a message
+const sendWebhook = (channel: WebhookChannel, event: AlertEvent) => {
+  const variables = getAlertVariables(event)
+  const body =
+    channel.body === undefined
+      ? event
+      : mapStrings(channel.body, (text) => text.replace(PLACEHOLDER, (match, name: string) => variables[name] ?? match))
+  return postJson(channel.url, body, channel.headers, channel.method)
+}
+
+// JSON publishing goes to the server root with the topic in the body, which keeps non-ASCII titles intact
+const sendNtfy = (channel: NtfyChannel, event: AlertEvent) => {
+  const url = new URL(channel.url)
+  const segments = url.pathname.split("/").filter(Boolean)
+  const topic = segments.pop()
+  if (!topic) throw new Error("The ntfy URL has no topic")
+
+  const priority = channel.priority ?? 4
+  return postJson(
+    new URL(`/${segments.join("/")}`, url.origin).toString(),
+    {
+      topic,
+      title: event.title,
+      message: event.message,
+      priority: isUrgent(event.kind) ? priority : Math.min(priority, 3),
+      tags: [NTFY_TAGS[event.kind]],
+      click: event.url,
+    },
+    channel.token ? { Authorization: `Bearer ${channel.token}` } : {},
+  )
+}
+
+const sendGotify = (channel: GotifyChannel, event: AlertEvent) => {
+  const priority = channel.priority ?? 8
+  return postJson(
+    `${channel.url.replace(/\/+$/, "")}/message`,
+    { title: event.title, message: event.message, priority: isUrgent(event.kind) ? priority : Math.min(priority, 5) },
+    { "X-Gotify-Key": channel.token },
+  )
+}
+
+// Deliver one alert through a channel; rejects with a readable reason when the channel doesn't accept it
+export const sendAlert = async (channel: AlertChannel, event: AlertEvent) => {
+  const resolved = mapStrings(channel, expandEnv) as AlertChannel
+
+  switch (resolved.type) {
+    case "webhook":
+      return sendWebhook(resolved, event)
+    case "ntfy":
+      return sendNtfy(resolved, event)
+    case "gotify":
+      return sendGotify(resolved, event)
+    case "discord":
+      return postJson(resolved.url, { content: `**${event.title}**\n${event.message}` })
+    case "slack":
+      return postJson(resolved.url, { text: `*${event.title}*\n${event.message}` })
+    case "email":
+      return sendMail({
+        host: resolved.host,
+        port: resolved.port ?? (resolved.secure ? 465 : 587),
+        secure: resolved.secure ?? false,
+        user: resolved.user,
+        password: resolved.password,
+        allowInsecureAuth: resolved.allowInsecureAuth ?? false,
+        from: resolved.from,
+        to: Array.isArray(resolved.to) ? resolved.to : resolved.to.split(",").map((address) => address.trim()),
+        subject: event.title,
+        text: `${event.message}\n\n${event.url}\n${new Date(event.at).toUTCString()}`,
+        timeout: SEND_TIMEOUT,
+      })
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  routeAlert,
+  type AlertChannelStatus,
+  type AlertDelivery,
+  type AlertEvent,
+  type AlertKind,
+} from "@/lib/alerts"
+import type { HealthResult } from "@/lib/health"
+import {
+  getNotificationSettings,
+  trackTransition,
+  type NotificationSettings,
+  type TransitionEvent,
+  type TransitionState,
+} from "@/lib/notifications"
+import { getServiceId } from "@/lib/services"
+import type { AlertsConfig, Config, Service, Tab } from "@/lib/types"
+import { sendAlert } from "./alert-channels"
+
+interface Watched {
+  key: string
+  tab: Tab
+  service?: Service // absent for the server's own mainUrl
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err))
+
+const toAlert = (event: TransitionEvent, { tab, service }: Watched, result: HealthResult): AlertEvent => {
+  const name = service?.name ?? tab.name
+  const where = service ? tab.name : "Server"
+  const base = { service: service?.name, tab: tab.name, url: service?.url ?? tab.mainUrl, at: result.checkedAt }
+  const status = result.status === "up" ? "up" : "down"
+  const alert = (kind: AlertKind, title: string, message: string) => ({ ...base, kind, title, message, status })
+
+  switch (event.kind) {
+    case "change":
+      if (event.to === "up") return alert("up", `${name} is back up`, where)
+      return {
+        ...alert("down", `${name} is down`, event.error ? `${where} · ${event.error}` : where),
+        error: event.error,
+      }
+    case "flapping":
+      return alert("flapping", `${name} keeps going up and down`, "Alerts for it are paused until it settles")
+    case "settled":
+      return alert("settled", `${name} has settled`, `It is ${event.state} now`)
+  }
+}
+
+// Sends alerts when servers and services go down and come back, with the same debounce and flap detection as
+// the dashboard's notifications, to the channels the config's alert routes pick. Fed by the probe scheduler;
+// test alerts link to the dashboard.
+export const createAlerter = (dashboardUrl: string) => {
+  let alerts: AlertsConfig = { channels: [] }
+  let settings: NotificationSettings = getNotificationSettings()
+  // The servers whose mainUrl, and services whose primary URL, is a given URL
+  let watched = new Map<string, Watched[]>()
+  const states = new Map<string, TransitionState>()
+  const deliveries = new Map<string, AlertDelivery>()
+
+  const deliver = async (name: string, event: AlertEvent) => {
+    const channel = alerts.channels.find((candidate) => candidate.name === name)
+    if (!channel) throw new Error(`Unknown alert channel "${name}"`)
+
+    try {
+      await sendAlert(channel, event)
+      deliveries.set(name, { at: Date.now(), kind: event.kind, ok: true })
+    } catch (err) {
+      deliveries.set(name, { at: Date.now(), kind: event.kind, ok: false, error: errorMessage(err) })
+      throw err
+    }
+  }
+
+  return {
+    // Called with every config the scheduler loads, URLs already resolved
+    setConfig: (config: Config) => {
+      alerts = config.alerts ?? { channels: [] }
+      settings = getNotificationSettings(config.notifications)
+      watched = new Map()
+      const watch = (url: string, entry: Watched) => watched.set(url, [...(watched.get(url) ?? []), entry])
+      config.tabs.forEach((tab) => {
+        watch(tab.mainUrl, { key: tab.key, tab })
+        tab.services.forEach((service) => {
+          if (service.healthcheck?.enabled === false) return
+          watch(service.url, { key: `${tab.key}/${getServiceId(service)}`, tab, service })
+        })
+      })
+
+      const keys = new Set(Array.from(watched.values(), (entries) => entries.map(({ key }) => key)).flat())
+      states.forEach((_, key) => {
+        if (!keys.has(key)) states.delete(key)
+      })
+    },
+
+    // Called with every probe result
+    handleResult: (url: string, result: HealthResult) => {
+      watched.get(url)?.forEach((entry) => {
+        const { state, event } = trackTransition(states.get(entry.key), result, settings)
+        states.set(entry.key, state)
+        if (!event || alerts.channels.length === 0) return
+
+        const alert = toAlert(event, entry, result)
+        routeAlert(alerts, entry.tab, entry.service).forEach((name) => {
+          deliver(name, alert).catch((err) => {
+            console.warn(`Alert "${alert.title}" to ${name} failed: ${errorMessage(err)}`)
+          })
+        })
+      })
+    },
+
+    // Send a test alert through one channel; rejects with the reason when the channel doesn't accept it
+    sendTest: (name: string) =>
+      deliver(name, {
+        kind: "test",
+        title: "Test alert from Server Dashboard",
+        message: `Alerts sent to "${name}" arrive like this one`,
+        service: "Test",
+        tab: "Test",
+        url: dashboardUrl,
+        status: "test",
+        at: Date.now(),
+      }),
+
+    hasChannel: (name: string) => alerts.channels.some((channel) => channel.name === name),
+
+    getChannels: (): AlertChannelStatus[] =>
+      alerts.channels.map(({ name, type }) => ({ name, type, lastDelivery: deliveries.get(name) })),
+  }
+}
+
+export type Alerter = ReturnType<typeof createAlerter>
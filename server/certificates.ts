@@ -0,0 +1,58 @@
+import { isIP } from "node:net"
+import { connect } from "node:tls"
+
+import type { CertificateInfo } from "@/lib/certificates"
+import type { HealthTarget } from "@/lib/health"
+
+// Where a target presents a certificate: https URLs and TLS checks; null for everything else
+export const getCertificateEndpoint = (target: HealthTarget) => {
+  if (target.type === "tls") return target.host && target.port ? { host: target.host, port: target.port } : null
+  if (target.type !== "http") return null
+
+  try {
+    const url = new URL(target.url)
+    if (url.protocol !== "https:") return null
+    return { host: url.hostname.replace(/^\[|\]$/g, ""), port: Number(url.port) || 443 }
+  } catch {
+    return null
+  }
+}
+
+// Certificate fields are arrays when a name repeats an attribute
+const first = (value?: string | string[]) => (Array.isArray(value) ? value[0] : value)
+
+// "DNS:example.com, IP Address:10.0.0.1" → ["example.com", "10.0.0.1"]
+const parseAltNames = (value?: string) =>
+  value ? value.split(", ").map((name) => name.replace(/^(DNS|IP Address):/, "")) : []
+
+// Handshake with the endpoint and read its certificate. Untrusted certificates are read too, so
+// self-signed ones can still be watched for expiry.
+export const inspectCertificate = (url: string, host: string, port: number, timeout: number) =>
+  new Promise<CertificateInfo>((resolve, reject) => {
+    const socket = connect({ host, port, servername: isIP(host) ? undefined : host, rejectUnauthorized: false })
+    socket.setTimeout(timeout * 1000, () => socket.destroy(new Error(`Timed out after ${timeout}s`)))
+    socket.once("error", reject)
+    socket.once("secureConnect", () => {
+      const certificate = socket.getPeerCertificate()
+      const { authorized, authorizationError } = socket
+      socket.destroy()
+      if (!certificate?.valid_to) {
+        reject(new Error(`${host}:${port} presented no certificate`))
+        return
+      }
+
+      resolve({
+        url,
+        host,
+        port,
+        subject: first(certificate.subject?.CN) ?? "",
+        issuer: first(certificate.issuer?.O) ?? first(certificate.issuer?.CN) ?? "",
+        sans: parseAltNames(certificate.subjectaltname),
+        validFrom: Date.parse(certificate.valid_from),
+        validTo: Date.parse(certificate.valid_to),
+        trusted: authorized,
+        trustError: authorized ? undefined : String(authorizationError),
+        checkedAt: Date.now(),
+      })
+    })
+  })
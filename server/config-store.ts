@@ -0,0 +1,66 @@
+import { existsSync } from "node:fs"
+import { copyFile, readFile, rename, unlink, writeFile } from "node:fs/promises"
+import path from "node:path"
+import vm from "node:vm"
+import { parse as parseYaml } from "yaml"
+
+import { serializeConfig, type ExportFormat } from "@/lib/config-export"
+import type { Config } from "@/lib/types"
+
+// Same lookup order as the browser loader in lib/config-loader.ts
+const DEFAULT_FILES = ["config.json", "config.yaml", "config.yml", "config.js"]
+
+export const formatOf = (file: string): ExportFormat => {
+  const ext = path.extname(file).toLowerCase()
+  if (ext === ".json") return "json"
+  if (ext === ".yaml" || ext === ".yml") return "yaml"
+  return "js"
+}
+
+// CONFIG_FILE wins; otherwise the first existing config in the public directory
+export const resolveConfigFile = (publicDir: string) => {
+  if (process.env.CONFIG_FILE) return path.resolve(process.env.CONFIG_FILE)
+
+  const found = DEFAULT_FILES.map((file) => path.join(publicDir, file)).find((file) => existsSync(file))
+  return found ?? path.join(publicDir, "config.json")
+}
+
+// config.js is a script that assigns window.dashboardConfig; run it in an isolated context
+const evaluateScriptConfig = (code: string, file: string) => {
+  const window: { dashboardConfig?: unknown; location: { hostname: string; protocol: string } } = {
+    location: { hostname: "localhost", protocol: "http:" },
+  }
+  vm.runInNewContext(code, { window }, { filename: file, timeout: 1000 })
+  return window.dashboardConfig
+}
+
+export const readConfigFile = async (file: string): Promise<unknown> => {
+  if (!existsSync(file)) return null
+
+  const text = await readFile(file, "utf8")
+  switch (formatOf(file)) {
+    case "json":
+      return JSON.parse(text)
+    case "yaml":
+      return parseYaml(text)
+    case "js":
+      return evaluateScriptConfig(text, file)
+  }
+}
+
+// Write via a temp file and rename so readers never see a half-written config;
+// the previous version is kept next to it as <file>.bak
+export const writeConfigFile = async (file: string, config: Config) => {
+  const temp = `${file}.tmp-${process.pid}-${Date.now()}`
+  await writeFile(temp, serializeConfig(config, formatOf(file)), "utf8")
+
+  try {
+    if (existsSync(file)) {
+      await copyFile(file, `${file}.bak`)
+    }
+    await rename(temp, file)
+  } catch (err) {
+    await unlink(temp).catch(() => {})
+    throw err
+  }
+}
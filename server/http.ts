@@ -0,0 +1,36 @@
+import type { IncomingMessage, ServerResponse } from "node:http"
+
+const MAX_BODY_BYTES = 1024 * 1024
+
+export class HttpError extends Error {
+  status: number
+  body?: object
+
+  constructor(status: number, message: string, body?: object) {
+    super(message)
+    this.name = "HttpError"
+    this.status = status
+    this.body = body
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store" })
+  res.end(JSON.stringify(body))
+}
+
+export const readJsonBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large")
+    chunks.push(chunk)
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"))
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON")
+  }
+}
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict"
+import { spawn, type ChildProcess } from "node:child_process"
+import { mkdtemp, rm, writeFile } from "node:fs/promises"
+import { createServer, type AddressInfo } from "node:net"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { after, before, describe, it } from "node:test"
+
+// Runs the real server in a child process, with probing off so it starts on any Node.js version
+
+const config = {
+  tabs: [
+    {
+      id: "nas",
+      key: "nas",
+      name: "NAS",
+      icon: "server",
+      mainUrl: "http://192.168.1.10",
+      tooltip: { title: "NAS", description: "Storage", location: "Closet", specs: "4 bays" },
+      services: [{ name: "Jellyfin", url: "http://192.168.1.10:8096", description: "Media" }],
+    },
+  ],
+}
+
+const freePort = () =>
+  new Promise<number>((resolve) => {
+    const server = createServer().listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo
+      server.close(() => resolve(port))
+    })
+  })
+
+const startServer = async (env: Record<string, string>) => {
+  const publicDir = await mkdtemp(path.join(tmpdir(), "dashboard-server-"))
+  await writeFile(path.join(publicDir, "config.json"), JSON.stringify(config))
+  const port = await freePort()
+
+  const child: ChildProcess = spawn(process.execPath, ["--import", "tsx", "server/index.ts"], {
+    env: { ...process.env, API_TOKEN: "", ...env, PORT: String(port), PROBES: "off", PUBLIC_DIR: publicDir },
+    stdio: ["ignore", "pipe", "pipe"],
+  })
+  await new Promise<void>((resolve, reject) => {
+    child.stdout?.on("data", (chunk: Buffer) => {
+      if (chunk.toString("utf8").includes("listening")) resolve()
+    })
+    child.once("exit", (code) => reject(new Error(`The server exited with code ${code}`)))
+  })
+
+  return {
+    request: (pathname: string, init?: RequestInit) => fetch(`http://127.0.0.1:${port}${pathname}`, init),
+    stop: async () => {
+      child.kill()
+      await rm(publicDir, { recursive: true, force: true })
+    },
+  }
+}
+
+const testSend = { method: "POST", body: JSON.stringify({ channel: "hook" }) }
+const save = { method: "PUT", body: JSON.stringify(config) }
+
+describe("server without API_TOKEN", () => {
+  let server: Awaited<ReturnType<typeof startServer>>
+
+  before(async () => {
+    server = await startServer({})
+  })
+  after(() => server.stop())
+
+  it("refuses test alerts", async () => {
+    const response = await server.request("/api/alerts/test", testSend)
+    assert.equal(response.status, 403)
+    assert.match((await response.json()).error, /read-only/)
+  })
+
+  it("answers 400 to a path with a malformed escape", async () => {
+    assert.equal((await server.request("/%E0%A4%A")).status, 400)
+  })
+
+  it("refuses config writes and reports the config as read-only", async () => {
+    assert.equal((await server.request("/api/config", save)).status, 403)
+    assert.equal((await (await server.request("/api/config")).json()).writable, false)
+  })
+})
+
+describe("server with API_TOKEN", () => {
+  let server: Awaited<ReturnType<typeof startServer>>
+
+  before(async () => {
+    server = await startServer({ API_TOKEN: "s3cret" })
+  })
+  after(() => server.stop())
+
+  it("refuses test alerts without the token", async () => {
+    assert.equal((await server.request("/api/alerts/test", testSend)).status, 401)
+    const wrong = await server.request("/api/alerts/test", { ...testSend, headers: { Authorization: "Bearer nope" } })
+    assert.equal(wrong.status, 401)
+  })
+
+  it("saves the config with the token", async () => {
+    assert.equal((await server.request("/api/config", save)).status, 401)
+    const saved = await server.request("/api/config", { ...save, headers: { Authorization: "Bearer s3cret" } })
+    assert.equal(saved.status, 200)
+    assert.equal((await saved.json()).writable, true)
+  })
+})
@@ -0,0 +1,201 @@
+// Optional server mode: serves the static export, a small API for saving config edits and, on Node.js 22+,
+// the results of a probe scheduler that checks every URL in the config around the clock and sends alerts.
+// Run with `yarn server` after `yarn build`; plain static hosting of out/ keeps working without it.
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http"
+import path from "node:path"
+
+import { validateConfig } from "@/lib/config-schema"
+import { HISTORY_RANGES, isHistoryRange } from "@/lib/history"
+import { createAlerter, type Alerter } from "./alerter"
+import { formatOf, readConfigFile, resolveConfigFile, writeConfigFile } from "./config-store"
+import { HttpError, readJsonBody, sendJson } from "./http"
+import { createProbeScheduler, type ProbeScheduler } from "./scheduler"
+import { serveStatic } from "./static"
+import { openStatusStore, type StatusStore } from "./status-store"
+
+const PORT = Number(process.env.PORT ?? 3000)
+const PUBLIC_DIR = path.resolve(process.env.PUBLIC_DIR ?? "public")
+const STATIC_DIR = path.resolve(process.env.STATIC_DIR ?? "out")
+const API_TOKEN = process.env.API_TOKEN
+const PROBES = process.env.PROBES !== "off"
+const STATUS_DB = path.resolve(process.env.STATUS_DB ?? "data/status.db")
+// Where users open the dashboard; fills {{host}}, {{protocol}} and {{origin}} in URLs the server probes
+const DASHBOARD_URL = new URL(process.env.DASHBOARD_URL ?? `http://localhost:${PORT}`)
+
+const HISTORY_MAX_LIMIT = 1000
+
+// Set once the probe scheduler is running; the status routes answer 404 until then
+let probes: { scheduler: ProbeScheduler; store: StatusStore; alerter: Alerter } | null = null
+
+// Writes require "Authorization: Bearer <API_TOKEN>"; without API_TOKEN the server is read-only, since anyone
+// who can reach it could otherwise replace the config
+const requireToken = (req: IncomingMessage) => {
+  if (!API_TOKEN) throw new HttpError(403, "This server is read-only; set API_TOKEN on the server to allow changes")
+  if (req.headers.authorization !== `Bearer ${API_TOKEN}`) {
+    throw new HttpError(401, "Missing or invalid API token")
+  }
+}
+
+const handleConfig = async (req: IncomingMessage, res: ServerResponse) => {
+  const file = resolveConfigFile(PUBLIC_DIR)
+  const info = {
+    file: path.basename(file),
+    format: formatOf(file),
+    writable: Boolean(API_TOKEN),
+    tokenRequired: true,
+  }
+
+  if (req.method === "GET") {
+    sendJson(res, 200, { ...info, config: await readConfigFile(file) })
+    return
+  }
+
+  if (req.method === "PUT") {
+    requireToken(req)
+
+    const { config, issues } = validateConfig(await readJsonBody(req))
+    if (!config || issues.length > 0) {
+      throw new HttpError(422, "Configuration is invalid", { issues })
+    }
+
+    await writeConfigFile(file, config)
+    console.log(`Saved ${file} (previous version kept as ${path.basename(file)}.bak)`)
+    sendJson(res, 200, { ...info, config })
+    return
+  }
+
+  res.setHeader("Allow", "GET, PUT")
+  throw new HttpError(405, "Method not allowed")
+}
+
+const requireProbes = (req: IncomingMessage, res: ServerResponse) => {
+  if (!probes) throw new HttpError(404, "Probing is not enabled on this server")
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET")
+    throw new HttpError(405, "Method not allowed")
+  }
+  return probes
+}
+
+const handleStatus = async (req: IncomingMessage, res: ServerResponse) => {
+  const { scheduler } = requireProbes(req, res)
+  sendJson(res, 200, { results: scheduler.getResults() })
+}
+
+const handleCertificates = async (req: IncomingMessage, res: ServerResponse) => {
+  const { scheduler } = requireProbes(req, res)
+  sendJson(res, 200, { certificates: scheduler.getCertificates() })
+}
+
+const handleAlerts = async (req: IncomingMessage, res: ServerResponse) => {
+  const { alerter } = requireProbes(req, res)
+  sendJson(res, 200, { channels: alerter.getChannels() })
+}
+
+// POST {"channel": "<name>"} sends a test alert through that channel. Like writes it needs the token: a test
+// send fills in the channel's {{env.ALERT_*}} secrets
+const handleAlertTest = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST")
+    throw new HttpError(405, "Method not allowed")
+  }
+  requireToken(req)
+  if (!probes) throw new HttpError(404, "Probing is not enabled on this server")
+
+  const body = await readJsonBody(req)
+  const channel = body && typeof body === "object" && "channel" in body ? body.channel : undefined
+  if (typeof channel !== "string") throw new HttpError(400, "Missing channel")
+  if (!probes.alerter.hasChannel(channel)) throw new HttpError(404, `Unknown alert channel "${channel}"`)
+
+  try {
+    await probes.alerter.sendTest(channel)
+  } catch (err) {
+    throw new HttpError(502, err instanceof Error ? err.message : String(err))
+  }
+  sendJson(res, 200, { channels: probes.alerter.getChannels() })
+}
+
+// ?url=<probed url>&range=<24h|7d|30d> for the bucketed chart of a range, or ?url=<probed url>&limit=<n> for the
+// latest checks
+const handleHistory = async (req: IncomingMessage, res: ServerResponse) => {
+  const { store } = requireProbes(req, res)
+  const params = new URL(req.url ?? "/", "http://localhost").searchParams
+  const url = params.get("url")
+  if (!url) throw new HttpError(400, "Missing url parameter")
+
+  if (params.has("limit")) {
+    const limit = Number(params.get("limit"))
+    if (!Number.isInteger(limit) || limit < 1) throw new HttpError(400, "limit must be a positive integer")
+    sendJson(res, 200, { entries: store.recent(url, Math.min(limit, HISTORY_MAX_LIMIT)) })
+    return
+  }
+
+  const range = params.get("range") ?? "24h"
+  if (!isHistoryRange(range)) throw new HttpError(400, `range must be one of ${Object.keys(HISTORY_RANGES).join(", ")}`)
+  sendJson(res, 200, store.chart(url, range))
+}
+
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>> = {
+  "/api/config": handleConfig,
+  "/api/status": handleStatus,
+  "/api/history": handleHistory,
+  "/api/certificates": handleCertificates,
+  "/api/alerts": handleAlerts,
+  "/api/alerts/test": handleAlertTest,
+}
+
+const startProbes = async () => {
+  const store = await openStatusStore(STATUS_DB)
+  const alerter = createAlerter(DASHBOARD_URL.toString())
+  const scheduler = createProbeScheduler({
+    store,
+    readConfig: () => readConfigFile(resolveConfigFile(PUBLIC_DIR)),
+    builtins: {
+      host: DASHBOARD_URL.hostname,
+      protocol: DASHBOARD_URL.protocol.replace(/:$/, ""),
+      origin: DASHBOARD_URL.origin,
+    },
+    onConfig: alerter.setConfig,
+    onResult: alerter.handleResult,
+  })
+  await scheduler.start()
+  probes = { scheduler, store, alerter }
+  console.log(`Probe results: ${STATUS_DB}`)
+}
+
+const server = createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost")
+
+  try {
+    const route = routes[pathname]
+    if (route) {
+      await route(req, res)
+    } else if (pathname.startsWith("/api/")) {
+      throw new HttpError(404, "Not found")
+    } else {
+      await serveStatic([PUBLIC_DIR, STATIC_DIR], req, res)
+    }
+  } catch (err) {
+    if (err instanceof HttpError) {
+      sendJson(res, err.status, { error: err.message, ...err.body })
+      return
+    }
+    console.error(`${req.method} ${pathname} failed:`, err)
+    sendJson(res, 500, { error: err instanceof Error ? err.message : "Internal server error" })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Server Dashboard listening on http://localhost:${PORT}`)
+  console.log(`Config file: ${resolveConfigFile(PUBLIC_DIR)}`)
+  if (!API_TOKEN) console.warn("API_TOKEN is not set: the config can't be saved and alerts can't be tested")
+
+  if (PROBES) {
+    startProbes().catch((err) => {
+      const message = err instanceof Error ? err.message : String(err)
+      const hint = err?.code === "ERR_UNKNOWN_BUILTIN_MODULE" ? " (probing needs Node.js 22 or newer)" : ""
+      console.warn(`Probe scheduler not started: ${message}${hint}`)
+    })
+  }
+})
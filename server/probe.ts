@@ -0,0 +1,169 @@
+import { Resolver } from "node:dns/promises"
+import { connect as connectTcp, isIP, type Socket } from "node:net"
+import { connect as connectTls } from "node:tls"
+
+import { evaluateResponse, hasBodyAssertions, type HealthResult, type HealthTarget } from "@/lib/health"
+
+class ProbeError extends Error {
+  status: HealthResult["status"]
+
+  constructor(message: string, status: HealthResult["status"] = "down") {
+    super(message)
+    this.name = "ProbeError"
+    this.status = status
+  }
+}
+
+// Node's errors are terse ("fetch failed", "queryA ENOTFOUND x"); the code and cause say what went wrong
+const describeError = (err: unknown) => {
+  if (!(err instanceof Error)) return "Request failed"
+  const cause = err.cause instanceof Error ? err.cause : err
+  const code = (cause as NodeJS.ErrnoException).code
+  const message = cause.message.trim()
+  return code && !message.includes(code) ? `${code}: ${message}` : message
+}
+
+// Time a check and turn its outcome into a result. A check returns the fields that differ from a plain "up"
+// or throws a ProbeError saying why it failed.
+const measure = async (
+  target: HealthTarget,
+  check: (signal: AbortSignal) => Promise<Partial<HealthResult> | void>,
+): Promise<HealthResult> => {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), target.timeout * 1000)
+  const started = performance.now()
+
+  try {
+    const extra = await check(controller.signal)
+    return { status: "up", checkedAt: Date.now(), latency: Math.round(performance.now() - started), ...extra }
+  } catch (err) {
+    if (err instanceof ProbeError) {
+      const latency = err.status === "down" ? undefined : Math.round(performance.now() - started)
+      return { status: err.status, checkedAt: Date.now(), latency, error: err.message }
+    }
+    return {
+      status: "down",
+      checkedAt: Date.now(),
+      error: controller.signal.aborted ? `Timed out after ${target.timeout}s` : describeError(err),
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// Without CORS in the way the status code and body are always available, so every assertion is checked
+const probeHttp = (target: HealthTarget) =>
+  measure(target, async (signal) => {
+    const response = await fetch(target.probeUrl, {
+      method: target.method,
+      headers: target.headers,
+      redirect: target.followRedirects ? "follow" : "manual",
+      signal,
+    })
+
+    // Only read the body when an assertion needs it
+    const body = hasBodyAssertions(target) ? await response.text() : undefined
+    if (body === undefined) await response.body?.cancel()
+
+    return { ...evaluateResponse(target, response.status, body), statusCode: response.status }
+  })
+
+// Resolves once the socket reaches the given event; errors and aborts reject and close it
+const waitFor = (socket: Socket, event: string, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => socket.destroy(new Error("aborted"))
+    signal.addEventListener("abort", abort, { once: true })
+    socket.once("error", reject)
+    socket.once(event, () => {
+      signal.removeEventListener("abort", abort)
+      resolve()
+    })
+  })
+
+const requireEndpoint = (target: HealthTarget) => {
+  if (!target.host || !target.port) throw new ProbeError(`No host and port to check in ${target.url}`)
+}
+
+const probeTcp = (target: HealthTarget) =>
+  measure(target, async (signal) => {
+    requireEndpoint(target)
+    const socket = connectTcp({ host: target.host, port: target.port })
+    try {
+      await waitFor(socket, "connect", signal)
+    } finally {
+      socket.destroy()
+    }
+  })
+
+// The handshake has to succeed with a certificate the system trusts for the host
+const probeTls = (target: HealthTarget) =>
+  measure(target, async (signal) => {
+    requireEndpoint(target)
+    const socket = connectTls({
+      host: target.host,
+      port: target.port,
+      servername: isIP(target.host) ? undefined : target.host,
+      // Verified below, so an untrusted certificate is reported as such rather than as a failed connection
+      rejectUnauthorized: false,
+    })
+    try {
+      await waitFor(socket, "secureConnect", signal)
+      if (!socket.authorized) {
+        throw new ProbeError(`Untrusted certificate (${socket.authorizationError})`, "degraded")
+      }
+    } finally {
+      socket.destroy()
+    }
+  })
+
+const normalizeRecord = (value: string) => value.trim().toLowerCase().replace(/\.$/, "")
+
+const resolveRecords = async (resolver: Resolver, target: HealthTarget): Promise<string[]> => {
+  switch (target.record) {
+    case "A":
+      return resolver.resolve4(target.host)
+    case "AAAA":
+      return resolver.resolve6(target.host)
+    case "CNAME":
+      return resolver.resolveCname(target.host)
+    case "MX":
+      return (await resolver.resolveMx(target.host)).map((record) => record.exchange)
+    case "NS":
+      return resolver.resolveNs(target.host)
+    case "TXT":
+      return (await resolver.resolveTxt(target.host)).map((chunks) => chunks.join(""))
+  }
+}
+
+// The name has to resolve and, when expectedRecords are given, answer with each of them
+const probeDns = (target: HealthTarget) =>
+  measure(target, async (signal) => {
+    if (!target.host) throw new ProbeError(`No host to look up in ${target.url}`)
+
+    const resolver = new Resolver({ timeout: target.timeout * 1000, tries: 1 })
+    if (target.resolver) resolver.setServers([target.resolver])
+    signal.addEventListener("abort", () => resolver.cancel(), { once: true })
+
+    const answers = await resolveRecords(resolver, target)
+    const missing = (target.expectedRecords ?? []).filter(
+      (expected) => !answers.some((answer) => normalizeRecord(answer) === normalizeRecord(expected)),
+    )
+    if (missing.length > 0) {
+      const got = answers.length > 0 ? answers.join(", ") : "nothing"
+      throw new ProbeError(`Expected ${missing.join(", ")} in ${target.record} records, got ${got}`, "degraded")
+    }
+  })
+
+// Server-side counterpart of probeTarget in lib/health.ts, with every check type available
+export const probeTarget = (target: HealthTarget): Promise<HealthResult> => {
+  switch (target.type) {
+    case "http":
+      return probeHttp(target)
+    case "tcp":
+      return probeTcp(target)
+    case "tls":
+      return probeTls(target)
+    case "dns":
+      return probeDns(target)
+  }
+}
@@ -0,0 +1,152 @@
+import type { CertificateInfo } from "@/lib/certificates"
+import { validateConfig } from "@/lib/config-schema"
+import { collectHealthTargets, type HealthResult, type HealthTarget } from "@/lib/health"
+import type { Config } from "@/lib/types"
+import { resolveConfigUrls } from "@/lib/url-template"
+import { getCertificateEndpoint, inspectCertificate } from "./certificates"
+import { probeTarget } from "./probe"
+import type { StatusStore } from "./status-store"
+
+// How often the config file is re-read for added, removed or changed URLs
+const RELOAD_INTERVAL = 30 * 1000
+const PRUNE_INTERVAL = 60 * 60 * 1000
+// Certificates change rarely; they are read again hourly, or after 10 minutes when the last attempt failed
+const CERTIFICATE_INTERVAL = 60 * 60 * 1000
+const CERTIFICATE_RETRY_INTERVAL = 10 * 60 * 1000
+
+interface SchedulerOptions {
+  store: StatusStore
+  readConfig: () => Promise<unknown>
+  // Values for {{host}}, {{protocol}} and {{origin}}, which the browser takes from its own location
+  builtins: Record<string, string>
+  // Every config that loads, with URLs resolved, and every probe result, e.g. for alerts
+  onConfig?: (config: Config) => void
+  onResult?: (url: string, result: HealthResult) => void
+}
+
+interface ScheduledTarget {
+  target: HealthTarget
+  timer: ReturnType<typeof setInterval>
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err))
+
+// Probes every URL of the config on its healthcheck interval, whether or not a dashboard is open, and keeps
+// the results in the status store. The config is re-read periodically, so edits apply without a restart.
+export const createProbeScheduler = ({ store, readConfig, builtins, onConfig, onResult }: SchedulerOptions) => {
+  const results = new Map(Object.entries(store.latest()))
+  const certificates = new Map(Object.entries(store.certificates()))
+  // When each URL's certificate is due to be read again
+  const certificatesDue = new Map<string, number>()
+  const scheduled = new Map<string, ScheduledTarget>()
+  const timers: ReturnType<typeof setInterval>[] = []
+  let lastError: string | null = null
+
+  const checkCertificate = async (target: HealthTarget) => {
+    const endpoint = getCertificateEndpoint(target)
+    const known = certificates.get(target.url)
+    const due = certificatesDue.get(target.url) ?? (known ? known.checkedAt + CERTIFICATE_INTERVAL : 0)
+    if (!endpoint || Date.now() < due) return
+
+    try {
+      const certificate = await inspectCertificate(target.url, endpoint.host, endpoint.port, target.timeout)
+      certificates.set(target.url, certificate)
+      store.saveCertificate(certificate)
+      certificatesDue.set(target.url, Date.now() + CERTIFICATE_INTERVAL)
+    } catch {
+      // The probe already reports an unreachable host; keep the last known certificate meanwhile
+      certificatesDue.set(target.url, Date.now() + CERTIFICATE_RETRY_INTERVAL)
+    }
+  }
+
+  const schedule = (target: HealthTarget) => {
+    let running = false
+    const run = async () => {
+      // A slow target never has two probes in flight
+      if (running) return
+      running = true
+      try {
+        const result = await probeTarget(target)
+        if (scheduled.get(target.url)?.target !== target) return
+        results.set(target.url, result)
+        store.record(target.url, result)
+        onResult?.(target.url, result)
+        await checkCertificate(target)
+      } catch (err) {
+        console.error(`Probing ${target.url} failed:`, err)
+      } finally {
+        running = false
+      }
+    }
+
+    run()
+    scheduled.set(target.url, { target, timer: setInterval(run, target.interval * 1000) })
+  }
+
+  const reload = async () => {
+    let config: Config
+    try {
+      const { config: loaded, issues } = validateConfig(await readConfig())
+      if (!loaded) throw new Error(issues.map((issue) => `${issue.path}: ${issue.message}`).join("; "))
+      config = resolveConfigUrls(loaded, builtins).config
+      lastError = null
+    } catch (err) {
+      // Keep probing the last good config; report each new problem once
+      if (errorMessage(err) !== lastError) {
+        lastError = errorMessage(err)
+        console.warn(`Probe scheduler could not load the config: ${lastError}`)
+      }
+      return
+    }
+
+    onConfig?.(config)
+    const targets = collectHealthTargets(config)
+    const next = new Map(targets.map((target) => [target.url, target]))
+    let changed = false
+
+    scheduled.forEach(({ target, timer }, url) => {
+      if (JSON.stringify(next.get(url)) === JSON.stringify(target)) return
+      clearInterval(timer)
+      scheduled.delete(url)
+      changed = true
+    })
+    targets.forEach((target) => {
+      if (scheduled.has(target.url)) return
+      schedule(target)
+      changed = true
+    })
+
+    if (changed) console.log(`Probing ${scheduled.size} URLs`)
+  }
+
+  const pickScheduled = <T>(values: Map<string, T>): Record<string, T> =>
+    Object.fromEntries(
+      Array.from(scheduled.keys()).flatMap((url) => {
+        const value = values.get(url)
+        return value ? [[url, value]] : []
+      }),
+    )
+
+  return {
+    start: async () => {
+      store.prune()
+      await reload()
+      timers.push(setInterval(reload, RELOAD_INTERVAL))
+      timers.push(setInterval(() => store.prune(), PRUNE_INTERVAL))
+    },
+
+    stop: () => {
+      timers.forEach(clearInterval)
+      scheduled.forEach(({ timer }) => clearInterval(timer))
+      scheduled.clear()
+    },
+
+    // The latest result of every URL that is currently probed
+    getResults: (): Record<string, HealthResult> => pickScheduled(results),
+
+    // The latest certificate of every https URL that is currently probed
+    getCertificates: (): Record<string, CertificateInfo> => pickScheduled(certificates),
+  }
+}
+
+export type ProbeScheduler = ReturnType<typeof createProbeScheduler>
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+
+import { sendMail, type MailOptions } from "./smtp"
+import { startSmtpStandIn } from "./test-stand-ins"
+
+const mail = (port: number, options: Partial<MailOptions> = {}): MailOptions => ({
+  host: "127.0.0.1",
+  port,
+  secure: false,
+  allowInsecureAuth: false,
+  from: "Server Dashboard <alerts@example.com>",
+  to: ["me@example.com"],
+  subject: "Jellyfin is down",
+  text: "NAS · timeout\nhttp://192.168.1.10:8096",
+  timeout: 5,
+  ...options,
+})
+
+const decodeBody = (message: string) => {
+  const [, body] = message.split("\r\n\r\n")
+  return Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8")
+}
+
+describe("sendMail", () => {
+  it("sends one base64 plain-text message", async () => {
+    const smtp = await startSmtpStandIn({ extensions: [] })
+    try {
+      await sendMail(mail(smtp.port, { subject: "Jellyfin is down ⚠" }))
+    } finally {
+      await smtp.close()
+    }
+
+    assert.deepEqual(
+      smtp.commands.map((command) => command.split(" ")[0]),
+      ["EHLO", "MAIL", "RCPT", "DATA", "QUIT"],
+    )
+    const [message] = smtp.messages
+    assert.match(message, /^From: Server Dashboard <alerts@example.com>\r\n/)
+    assert.match(message, /\r\nSubject: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=\r\n/)
+    assert.match(message, /\r\nContent-Transfer-Encoding: base64\r\n/)
+    assert.equal(decodeBody(message), "NAS · timeout\r\nhttp://192.168.1.10:8096")
+  })
+
+  it("refuses to log in without TLS", async () => {
+    const smtp = await startSmtpStandIn()
+    try {
+      await assert.rejects(sendMail(mail(smtp.port, { user: "alerts", password: "s3cret" })), /unencrypted/)
+    } finally {
+      await smtp.close()
+    }
+
+    assert.ok(smtp.commands.every((command) => !command.startsWith("AUTH")))
+    assert.equal(smtp.messages.length, 0)
+  })
+
+  it("logs in with AUTH PLAIN without TLS when allowed", async () => {
+    const smtp = await startSmtpStandIn()
+    try {
+      await sendMail(mail(smtp.port, { user: "alerts", password: "s3cret", allowInsecureAuth: true }))
+    } finally {
+      await smtp.close()
+    }
+
+    assert.ok(smtp.commands.includes(`AUTH PLAIN ${Buffer.from("\0alerts\0s3cret").toString("base64")}`))
+    assert.equal(smtp.messages.length, 1)
+  })
+
+  it("falls back to AUTH LOGIN when the server only offers it", async () => {
+    const smtp = await startSmtpStandIn({ extensions: ["AUTH LOGIN"] })
+    try {
+      await sendMail(mail(smtp.port, { user: "alerts", password: "s3cret", allowInsecureAuth: true }))
+    } finally {
+      await smtp.close()
+    }
+
+    const login = smtp.commands.indexOf("AUTH LOGIN")
+    assert.deepEqual(smtp.commands.slice(login + 1, login + 3), [
+      Buffer.from("alerts").toString("base64"),
+      Buffer.from("s3cret").toString("base64"),
+    ])
+    assert.equal(smtp.messages.length, 1)
+  })
+
+  it("rejects when the server can't be reached", async () => {
+    await assert.rejects(sendMail(mail(1)), /ECONNREFUSED/)
+  })
+})
@@ -0,0 +1,193 @@
+import { connect as connectTcp, type Socket } from "node:net"
+import { hostname } from "node:os"
+import { connect as connectTls } from "node:tls"
+
+// A minimal SMTP client for alert emails: STARTTLS when offered, AUTH PLAIN or LOGIN, one plain-text message.
+// Enough for the usual relays and mail providers without pulling in a mail library. Credentials only go over
+// TLS unless the channel explicitly allows otherwise.
+
+export interface MailOptions {
+  host: string
+  port: number
+  secure: boolean // TLS from the start (usually port 465)
+  user?: string
+  password?: string
+  allowInsecureAuth: boolean // log in even without TLS, e.g. to a relay on the same host
+  from: string
+  to: string[]
+  subject: string
+  text: string
+  timeout: number // seconds
+}
+
+interface Reply {
+  code: number
+  lines: string[]
+}
+
+// "Server Dashboard <alerts@example.com>" → "alerts@example.com"
+const addressOf = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value.trim()
+
+const base64 = (value: string) => Buffer.from(value, "utf8").toString("base64")
+
+// RFC 2047 encoded word for non-ASCII subjects
+const encodeHeader = (value: string) => (/^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64(value)}?=`)
+
+const formatMessage = ({ from, to, subject, text }: MailOptions) => {
+  const body = base64(text.replace(/\r?\n/g, "\r\n"))
+    .match(/.{1,76}/g)
+    ?.join("\r\n")
+  return [
+    `From: ${from}`,
+    `To: ${to.join(", ")}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body ?? "",
+  ].join("\r\n")
+}
+
+// Reads multi-line replies ("250-..." continued until "250 ...") from a socket that may be swapped for a TLS
+// one after STARTTLS
+const createSession = (initial: Socket, timeout: number) => {
+  let socket = initial
+  let buffer = ""
+  let lines: string[] = []
+  const replies: Reply[] = []
+  let waiting: { resolve: (reply: Reply) => void; reject: (err: Error) => void } | null = null
+  let failure: Error | null = null
+
+  const settle = () => {
+    if (!waiting) return
+    const reply = replies.shift()
+    if (reply) {
+      waiting.resolve(reply)
+      waiting = null
+    } else if (failure) {
+      waiting.reject(failure)
+      waiting = null
+    }
+  }
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8")
+    let end: number
+    while ((end = buffer.indexOf("\n")) >= 0) {
+      const line = buffer.slice(0, end).replace(/\r$/, "")
+      buffer = buffer.slice(end + 1)
+      lines.push(line.slice(4))
+      if (line[3] !== "-") {
+        replies.push({ code: Number(line.slice(0, 3)), lines })
+        lines = []
+      }
+    }
+    settle()
+  }
+  const onError = (err: Error) => {
+    failure ??= err
+    settle()
+  }
+  const onClose = () => onError(new Error("The SMTP server closed the connection"))
+
+  const attach = (next: Socket) => {
+    socket = next
+    socket.setTimeout(timeout * 1000, () => socket.destroy(new Error(`Timed out after ${timeout}s`)))
+    socket.on("data", onData)
+    socket.on("error", onError)
+    socket.on("close", onClose)
+  }
+
+  const detach = () => {
+    socket.setTimeout(0)
+    socket.off("data", onData)
+    socket.off("error", onError)
+    socket.off("close", onClose)
+  }
+
+  const read = () =>
+    new Promise<Reply>((resolve, reject) => {
+      waiting = { resolve, reject }
+      settle()
+    })
+
+  attach(initial)
+
+  return {
+    // Send a command (or nothing, for the greeting) and expect a reply of the given class, e.g. 2 for 2xx
+    expect: async (command: string | null, expected: number, description = command ?? "greeting") => {
+      if (command !== null) socket.write(`${command}\r\n`)
+      const reply = await read()
+      if (Math.floor(reply.code / 100) !== expected) {
+        throw new Error(`SMTP ${description.split(" ")[0]} failed: ${reply.code} ${reply.lines.join(" ")}`)
+      }
+      return reply
+    },
+
+    upgrade: (servername: string) =>
+      new Promise<void>((resolve, reject) => {
+        detach()
+        const secured = connectTls({ socket, servername })
+        secured.once("secureConnect", () => {
+          secured.off("error", reject)
+          attach(secured)
+          resolve()
+        })
+        secured.once("error", reject)
+      }),
+
+    close: () => {
+      detach()
+      // Late errors of a closing connection don't matter any more, but must not go unhandled
+      socket.on("error", () => {})
+      socket.destroy()
+    },
+  }
+}
+
+export const sendMail = async (options: MailOptions) => {
+  const { host, port, secure, user, password, timeout } = options
+  const socket = secure ? connectTls({ host, port, servername: host }) : connectTcp({ host, port })
+  const session = createSession(socket, timeout)
+  const name = hostname() || "localhost"
+
+  try {
+    await session.expect(null, 2)
+    let { lines } = await session.expect(`EHLO ${name}`, 2)
+    const supports = (extension: string) => lines.some((line) => line.toUpperCase().startsWith(extension))
+
+    let encrypted = secure
+    if (!secure && supports("STARTTLS")) {
+      await session.expect("STARTTLS", 2)
+      await session.upgrade(host)
+      encrypted = true
+      ;({ lines } = await session.expect(`EHLO ${name}`, 2))
+    }
+
+    if (user) {
+      if (!encrypted && !options.allowInsecureAuth) {
+        throw new Error("The SMTP server doesn't offer STARTTLS; refusing to send the password unencrypted")
+      }
+      const methods = lines.find((line) => line.toUpperCase().startsWith("AUTH"))?.toUpperCase() ?? ""
+      if (methods.includes("PLAIN") || !methods.includes("LOGIN")) {
+        await session.expect(`AUTH PLAIN ${base64(`\0${user}\0${password ?? ""}`)}`, 2, "AUTH")
+      } else {
+        await session.expect("AUTH LOGIN", 3)
+        await session.expect(base64(user), 3, "AUTH")
+        await session.expect(base64(password ?? ""), 2, "AUTH")
+      }
+    }
+
+    await session.expect(`MAIL FROM:<${addressOf(options.from)}>`, 2)
+    for (const recipient of options.to) {
+      await session.expect(`RCPT TO:<${addressOf(recipient)}>`, 2)
+    }
+    await session.expect("DATA", 3)
+    await session.expect(`${formatMessage(options)}\r\n.`, 2, "DATA")
+    await session.expect("QUIT", 2).catch(() => {})
+  } finally {
+    session.close()
+  }
+}
@@ -0,0 +1,85 @@
+import { createReadStream } from "node:fs"
+import { stat } from "node:fs/promises"
+import type { IncomingMessage, ServerResponse } from "node:http"
+import path from "node:path"
+
+const mimeTypes: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".yaml": "application/yaml; charset=utf-8",
+  ".yml": "application/yaml; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+}
+
+const isFile = async (file: string) => {
+  try {
+    return (await stat(file)).isFile()
+  } catch {
+    return false
+  }
+}
+
+// Find a decoded request path in the given roots, in order; Next's export writes /page as page.html
+const resolveFile = async (roots: string[], pathname: string) => {
+  const relative = path.normalize(pathname).replace(/^([/\\])+/, "")
+  const candidates = relative === "" ? ["index.html"] : [relative, `${relative}.html`, path.join(relative, "index.html")]
+
+  for (const root of roots) {
+    for (const candidate of candidates) {
+      const file = path.join(root, candidate)
+      // Refuse anything that escapes the root, e.g. /../../etc/passwd
+      if (!file.startsWith(root + path.sep)) continue
+      if (await isFile(file)) return file
+    }
+  }
+  return null
+}
+
+// Serve files from the first root that has them; later roots act as fallbacks
+export const serveStatic = async (roots: string[], req: IncomingMessage, res: ServerResponse) => {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost")
+  let decoded: string
+  try {
+    decoded = decodeURIComponent(pathname)
+  } catch {
+    // A malformed escape such as %E0%A4%A
+    res.writeHead(400, { "Content-Type": "text/plain; charset=utf-8" })
+    res.end("Bad request")
+    return
+  }
+
+  let file = await resolveFile(roots, decoded)
+  let status = 200
+
+  if (!file) {
+    file = await resolveFile(roots, "/404")
+    status = 404
+  }
+  if (!file) {
+    res.writeHead(404, { "Content-Type": "text/plain; charset=utf-8" })
+    res.end("Not found")
+    return
+  }
+
+  res.writeHead(status, {
+    "Content-Type": mimeTypes[path.extname(file).toLowerCase()] ?? "application/octet-stream",
+    "Cache-Control": "no-cache",
+  })
+  if (req.method === "HEAD") {
+    res.end()
+    return
+  }
+  createReadStream(file).pipe(res)
+}
@@ -0,0 +1,174 @@
+import { mkdir } from "node:fs/promises"
+import path from "node:path"
+import type { DatabaseSync, SQLOutputValue } from "node:sqlite"
+
+import type { CertificateInfo } from "@/lib/certificates"
+import type { HealthResult, HealthStatus } from "@/lib/health"
+import {
+  chartCounts,
+  HISTORY_RANGES,
+  HISTORY_RETENTION,
+  type HistoryChart,
+  type HistoryCounts,
+  type HistoryEntry,
+  type HistoryRange,
+} from "@/lib/history"
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS checks (
+    url TEXT NOT NULL,
+    checked_at INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    latency INTEGER,
+    status_code INTEGER,
+    error TEXT
+  );
+  CREATE INDEX IF NOT EXISTS checks_url_checked_at ON checks (url, checked_at);
+  CREATE INDEX IF NOT EXISTS checks_checked_at ON checks (checked_at);
+  CREATE TABLE IF NOT EXISTS certificates (
+    url TEXT PRIMARY KEY,
+    host TEXT NOT NULL,
+    port INTEGER NOT NULL,
+    subject TEXT NOT NULL,
+    issuer TEXT NOT NULL,
+    sans TEXT NOT NULL,
+    valid_from INTEGER NOT NULL,
+    valid_to INTEGER NOT NULL,
+    trusted INTEGER NOT NULL,
+    trust_error TEXT,
+    checked_at INTEGER NOT NULL
+  );
+`
+
+type Row = Record<string, SQLOutputValue>
+
+const optionalNumber = (value: SQLOutputValue) => (value === null ? undefined : Number(value))
+
+const toEntry = (row: Row): HistoryEntry => ({
+  url: String(row.url),
+  checkedAt: Number(row.checked_at),
+  status: String(row.status) as HealthStatus,
+  latency: optionalNumber(row.latency),
+})
+
+const toResult = (row: Row): HealthResult => ({
+  status: String(row.status) as HealthStatus,
+  checkedAt: Number(row.checked_at),
+  latency: optionalNumber(row.latency),
+  statusCode: optionalNumber(row.status_code),
+  error: row.error === null ? undefined : String(row.error),
+})
+
+const toCertificate = (row: Row): CertificateInfo => ({
+  url: String(row.url),
+  host: String(row.host),
+  port: Number(row.port),
+  subject: String(row.subject),
+  issuer: String(row.issuer),
+  sans: JSON.parse(String(row.sans)),
+  validFrom: Number(row.valid_from),
+  validTo: Number(row.valid_to),
+  trusted: Boolean(row.trusted),
+  trustError: row.trust_error === null ? undefined : String(row.trust_error),
+  checkedAt: Number(row.checked_at),
+})
+
+const createStatusStore = (db: DatabaseSync) => {
+  db.exec(SCHEMA)
+
+  const insert = db.prepare(
+    "INSERT INTO checks (url, checked_at, status, latency, status_code, error) VALUES (?, ?, ?, ?, ?, ?)",
+  )
+  const selectLatest = db.prepare(`
+    SELECT checks.* FROM checks
+    JOIN (SELECT url, MAX(checked_at) AS checked_at FROM checks GROUP BY url) latest
+      ON checks.url = latest.url AND checks.checked_at = latest.checked_at
+  `)
+  // Totals per bucket of a range, so a month of checks comes back as a few dozen rows
+  const selectBuckets = db.prepare(`
+    SELECT CAST((checked_at - ?) / ? AS INTEGER) AS bucket, COUNT(*) AS checks, SUM(status = 'up') AS up,
+      COUNT(latency) AS measured, COALESCE(SUM(latency), 0) AS total_latency
+    FROM checks WHERE url = ? AND checked_at >= ? AND checked_at < ?
+    GROUP BY bucket
+  `)
+  const selectRecent = db.prepare("SELECT * FROM checks WHERE url = ? ORDER BY checked_at DESC LIMIT ?")
+  const deleteBefore = db.prepare("DELETE FROM checks WHERE checked_at < ?")
+  const upsertCertificate = db.prepare(`
+    INSERT OR REPLACE INTO certificates
+      (url, host, port, subject, issuer, sans, valid_from, valid_to, trusted, trust_error, checked_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+  const selectCertificates = db.prepare("SELECT * FROM certificates")
+
+  return {
+    record: (url: string, result: HealthResult) => {
+      insert.run(
+        url,
+        result.checkedAt,
+        result.status,
+        result.latency ?? null,
+        result.statusCode ?? null,
+        result.error ?? null,
+      )
+    },
+
+    // The last check of every URL, to serve a status right after a restart
+    latest: (): Record<string, HealthResult> =>
+      Object.fromEntries(selectLatest.all().map((row) => [String(row.url), toResult(row)])),
+
+    // The chart of a URL's checks over a range, bucketed like the browser's
+    chart: (url: string, range: HistoryRange, now = Date.now()): HistoryChart => {
+      const { duration, bucket } = HISTORY_RANGES[range]
+      const start = now - duration
+      const rows = selectBuckets.all(start, bucket, url, start, start + Math.ceil(duration / bucket) * bucket)
+      const buckets = new Map<number, HistoryCounts>(
+        rows.map((row) => [
+          Number(row.bucket),
+          {
+            checks: Number(row.checks),
+            up: Number(row.up),
+            measured: Number(row.measured),
+            totalLatency: Number(row.total_latency),
+          },
+        ]),
+      )
+      return chartCounts(buckets, range, now)
+    },
+
+    // The latest checks of a URL, oldest first
+    recent: (url: string, limit: number): HistoryEntry[] => selectRecent.all(url, limit).map(toEntry).reverse(),
+
+    prune: (now = Date.now()) => {
+      deleteBefore.run(now - HISTORY_RETENTION)
+    },
+
+    // The latest certificate per URL; only one is kept
+    saveCertificate: (certificate: CertificateInfo) => {
+      upsertCertificate.run(
+        certificate.url,
+        certificate.host,
+        certificate.port,
+        certificate.subject,
+        certificate.issuer,
+        JSON.stringify(certificate.sans),
+        certificate.validFrom,
+        certificate.validTo,
+        certificate.trusted ? 1 : 0,
+        certificate.trustError ?? null,
+        certificate.checkedAt,
+      )
+    },
+
+    certificates: (): Record<string, CertificateInfo> =>
+      Object.fromEntries(selectCertificates.all().map((row) => [String(row.url), toCertificate(row)])),
+  }
+}
+
+export type StatusStore = ReturnType<typeof createStatusStore>
+
+// node:sqlite ships with Node.js 22; it is imported lazily so older versions still run the rest of the server
+export const openStatusStore = async (file: string): Promise<StatusStore> => {
+  const { DatabaseSync } = await import("node:sqlite")
+  await mkdir(path.dirname(file), { recursive: true })
+  return createStatusStore(new DatabaseSync(file))
+}
@@ -0,0 +1,108 @@
+import { createServer as createHttpServer, type IncomingHttpHeaders } from "node:http"
+import { createServer as createTcpServer, type AddressInfo, type Server } from "node:net"
+
+// In-process stand-ins for the services alert channels talk to, for the server's tests
+
+export interface CapturedRequest {
+  method: string
+  path: string
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+const listen = async <T extends Server>(server: T) => {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const { port } = server.address() as AddressInfo
+  return {
+    port,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
+
+// Records every request and answers with the given status
+export const startHttpStandIn = async (status = 200) => {
+  const requests: CapturedRequest[] = []
+  const server = createHttpServer((req, res) => {
+    let body = ""
+    req.on("data", (chunk: Buffer) => (body += chunk.toString("utf8")))
+    req.on("end", () => {
+      requests.push({ method: req.method ?? "", path: req.url ?? "", headers: req.headers, body })
+      res.writeHead(status, { "Content-Type": "text/plain" })
+      res.end(status < 400 ? "ok" : "rejected")
+    })
+  })
+  const { port, close } = await listen(server)
+  return { url: `http://127.0.0.1:${port}`, requests, close }
+}
+
+export interface SmtpStandInOptions {
+  // Extensions listed in the EHLO reply, e.g. ["AUTH LOGIN"]
+  extensions?: string[]
+}
+
+// Speaks just enough plain SMTP for sendMail: accepts any login and records the commands and messages
+export const startSmtpStandIn = async ({ extensions = ["AUTH PLAIN LOGIN"] }: SmtpStandInOptions = {}) => {
+  const commands: string[] = []
+  const messages: string[] = []
+
+  const server = createTcpServer((socket) => {
+    let buffer = ""
+    let data: string[] | null = null
+    let login: string[] | null = null
+    const reply = (line: string) => socket.write(`${line}\r\n`)
+
+    const handle = (line: string) => {
+      if (data) {
+        if (line !== ".") {
+          data.push(line)
+          return
+        }
+        messages.push(data.join("\r\n"))
+        data = null
+        return reply("250 Queued")
+      }
+
+      commands.push(line)
+      if (login) {
+        login.push(line)
+        if (login.length === 1) return reply("334 UGFzc3dvcmQ6")
+        login = null
+        return reply("235 Authenticated")
+      }
+
+      const verb = line.split(" ")[0].toUpperCase()
+      if (verb === "EHLO") {
+        return ["250-stand-in", ...extensions.map((extension) => `250-${extension}`), "250 8BITMIME"].forEach(reply)
+      }
+      if (verb === "AUTH" && line.toUpperCase().startsWith("AUTH LOGIN")) {
+        login = []
+        return reply("334 VXNlcm5hbWU6")
+      }
+      if (verb === "AUTH") return reply("235 Authenticated")
+      if (verb === "DATA") {
+        data = []
+        return reply("354 End with <CRLF>.<CRLF>")
+      }
+      if (verb === "QUIT") {
+        reply("221 Bye")
+        return socket.end()
+      }
+      reply("250 OK")
+    }
+
+    socket.on("data", (chunk: Buffer) => {
+      buffer += chunk.toString("utf8")
+      let end: number
+      while ((end = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, end)
+        buffer = buffer.slice(end + 2)
+        handle(line)
+      }
+    })
+    socket.on("error", () => {})
+    reply("220 stand-in ESMTP")
+  })
+
+  const { port, close } = await listen(server)
+  return { port, commands, messages, close }
+}